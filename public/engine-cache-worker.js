@@ -0,0 +1,44 @@
+// Serves the engine files downloaded by the engine download manager, the
+// cache name of the current engine build is given by the registration URL
+const ENGINES_CACHE_NAME = new URL(self.location.href).searchParams.get(
+  "cache"
+);
+
+self.addEventListener("install", () => self.skipWaiting());
+
+self.addEventListener("activate", (event) =>
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(
+          names
+            .filter(
+              (name) =>
+                name.startsWith("engines-") && name !== ENGINES_CACHE_NAME
+            )
+            .map((name) => caches.delete(name))
+        )
+      )
+      .then(() => self.clients.claim())
+  )
+);
+
+self.addEventListener("fetch", (event) => {
+  const url = new URL(event.request.url);
+  if (
+    !ENGINES_CACHE_NAME ||
+    event.request.method !== "GET" ||
+    url.origin !== self.location.origin ||
+    !url.pathname.startsWith("/engines/")
+  ) {
+    return;
+  }
+
+  event.respondWith(
+    caches
+      .open(ENGINES_CACHE_NAME)
+      .then((cache) => cache.match(url.pathname))
+      .then((response) => response ?? fetch(event.request))
+  );
+});
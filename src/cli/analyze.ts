@@ -0,0 +1,136 @@
+import "./registerAliases";
+import { EventEmitter } from "events";
+import { readFile, writeFile } from "fs/promises";
+import path from "path";
+import { parseArgs } from "util";
+import { UciEngine } from "@/lib/engine/uciEngine";
+import {
+  getFakeEngineWorker,
+  parseFakeEngineFixture,
+} from "@/lib/engine/fakeEngine";
+import { getEvaluateGameParams, getGameFromPgn } from "@/lib/chess";
+import { EngineName } from "@/types/enums";
+import { EvalProvidersSettings } from "@/types/eval";
+import { getNodeEngineWorker } from "./nodeWorker";
+import { getAnnotatedPgn, splitPgnGames } from "./pgn";
+
+const USAGE = `Usage: npm run analyze -- <games.pgn> [options]
+
+Options:
+  --engine <path>     UCI engine binary, or Node build of a JavaScript engine (default: stockfish)
+  --fixture <file>    Replay the scripted output of a fake engine fixture instead
+  --depth <n>         Maximum depth per position (default: 16)
+  --multipv <n>       Number of lines per position (default: 3)
+  --workers <n>       Number of engine processes (default: 1)
+  --deterministic     Reproducible analysis, independent of the machine speed
+  --progressive       Quick first pass, then deepen critical moves
+  --format <format>   json or pgn (default: json)
+  --output <file>     Output file (default: standard output)`;
+
+// Analyses only rely on the engine, there is no browser cache or cloud here
+const NO_EVAL_PROVIDERS: EvalProvidersSettings = {
+  providers: [],
+  offline: true,
+  httpEndpoint: "",
+};
+
+// Every queued position of a game listens to the abort signal of its analysis
+EventEmitter.defaultMaxListeners = 0;
+
+const getFakeEngine = async (fixturePath: string): Promise<UciEngine> => {
+  const fixture = parseFakeEngineFixture(await readFile(fixturePath, "utf8"));
+
+  return UciEngine.create(EngineName.Fake, fixturePath, undefined, () =>
+    getFakeEngineWorker(fixture)
+  );
+};
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      engine: { type: "string", default: "stockfish" },
+      fixture: { type: "string" },
+      depth: { type: "string", default: "16" },
+      multipv: { type: "string", default: "3" },
+      workers: { type: "string", default: "1" },
+      deterministic: { type: "boolean", default: false },
+      progressive: { type: "boolean", default: false },
+      format: { type: "string", default: "json" },
+      output: { type: "string" },
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  const pgnPath = positionals[0];
+  if (values.help || !pgnPath) {
+    console.error(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+
+  if (values.format !== "json" && values.format !== "pgn") {
+    throw new Error(`Invalid format : ${values.format}`);
+  }
+
+  const gamePgns = splitPgnGames(await readFile(pgnPath, "utf8"));
+  const engine = values.fixture
+    ? await getFakeEngine(values.fixture)
+    : await UciEngine.create(
+        `custom_${path.basename(values.engine)}`,
+        values.engine,
+        undefined,
+        getNodeEngineWorker
+      );
+
+  const outputs: string[] = [];
+
+  try {
+    for (const [i, gamePgn] of gamePgns.entries()) {
+      const game = getGameFromPgn(gamePgn);
+      if (!game.history().length) continue;
+
+      const headers = game.getHeaders();
+      console.error(
+        `Analyzing game ${i + 1}/${gamePgns.length} : ${headers.White ?? "?"} - ${headers.Black ?? "?"}`
+      );
+
+      const gameEval = await engine.evaluateGame({
+        ...getEvaluateGameParams(game),
+        depth: parseInt(values.depth),
+        multiPv: parseInt(values.multipv),
+        workersNb: parseInt(values.workers),
+        deterministic: values.deterministic,
+        progressive: values.progressive,
+        evalProviders: NO_EVAL_PROVIDERS,
+        playersRatings: {
+          white: headers.WhiteElo ? parseInt(headers.WhiteElo) : undefined,
+          black: headers.BlackElo ? parseInt(headers.BlackElo) : undefined,
+        },
+      });
+
+      outputs.push(
+        values.format === "json"
+          ? JSON.stringify({ headers, ...gameEval })
+          : getAnnotatedPgn(game, gameEval)
+      );
+    }
+  } finally {
+    engine.shutdown();
+  }
+
+  const output =
+    values.format === "json"
+      ? `[${outputs.join(",\n")}]`
+      : outputs.join("\n\n");
+
+  if (values.output) {
+    await writeFile(values.output, `${output}\n`);
+  } else {
+    process.stdout.write(`${output}\n`);
+  }
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
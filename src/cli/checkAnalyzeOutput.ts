@@ -0,0 +1,45 @@
+import { execFile } from "child_process";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { promisify } from "util";
+
+const CHECK_PGN = `[White "White"]
+[Black "Black"]
+
+1. e4 e5 2. Nf3 Nc6 3. Bb5 a6 *
+`;
+
+// Runs the analysis of a game with the fake engine fixture, with several
+// workers, and checks that the standard output is only the JSON result
+const main = async () => {
+  const directory = await mkdtemp(path.join(os.tmpdir(), "chesskit-"));
+
+  try {
+    const pgnPath = path.join(directory, "game.pgn");
+    await writeFile(pgnPath, CHECK_PGN);
+
+    const { stdout } = await promisify(execFile)(process.execPath, [
+      path.join(__dirname, "analyze.js"),
+      pgnPath,
+      "--fixture",
+      path.join(process.cwd(), "public/engines/fake-engine.json"),
+      "--workers",
+      "2",
+    ]);
+
+    const games = JSON.parse(stdout);
+    if (!Array.isArray(games) || games.length !== 1) {
+      throw new Error(`Unexpected analysis output : ${stdout}`);
+    }
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+
+  console.error("The analysis output is valid JSON");
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,43 @@
+import "./registerAliases";
+import { Chess } from "chess.js";
+import { BOT_PERSONALITIES } from "@/data/botPersonalities";
+import { openings } from "@/data/openings";
+
+// Checks that every book line of the bot personalities replays legally from
+// the starting position and goes through an opening of the openings list,
+// which names it in the bot description
+const main = () => {
+  const errors: string[] = [];
+
+  for (const personality of BOT_PERSONALITIES) {
+    for (const line of personality.bookLines) {
+      const game = new Chess();
+      let isKnownOpening = false;
+
+      try {
+        for (const san of line.split(" ")) {
+          const placement = game.move(san).after.split(" ")[0];
+          isKnownOpening ||= openings.some(
+            (opening) => opening.fen === placement
+          );
+        }
+      } catch {
+        errors.push(`${personality.id} : "${line}" is not a legal line`);
+        continue;
+      }
+
+      if (!isKnownOpening) {
+        errors.push(`${personality.id} : "${line}" goes through no opening`);
+      }
+    }
+  }
+
+  if (errors.length) {
+    console.error(errors.join("\n"));
+    process.exit(1);
+  }
+
+  console.error("The book lines are valid");
+};
+
+main();
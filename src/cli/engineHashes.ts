@@ -0,0 +1,31 @@
+import { createHash } from "crypto";
+import { readdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+
+const ENGINES_DIRECTORY = "public/engines";
+const HASHES_PATH = "src/lib/engine/engineHashes.json";
+const IGNORED_FILES = ["fake-engine.json"];
+
+// Pins the SHA-256 of the engine files, to run whenever they are rebuilt
+const main = async () => {
+  const files = (await readdir(ENGINES_DIRECTORY, { recursive: true }))
+    .filter((file) => /\.(js|wasm)$/.test(file))
+    .filter((file) => !IGNORED_FILES.includes(path.basename(file)))
+    .sort();
+
+  const hashes: Record<string, string> = {};
+  for (const file of files) {
+    const content = await readFile(path.join(ENGINES_DIRECTORY, file));
+    hashes[`/engines/${file.split(path.sep).join("/")}`] = createHash("sha256")
+      .update(content)
+      .digest("hex");
+  }
+
+  await writeFile(HASHES_PATH, `${JSON.stringify(hashes, null, 2)}\n`);
+  console.error(`${files.length} engine files hashed in ${HASHES_PATH}`);
+};
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,41 @@
+import { spawn } from "child_process";
+import { createInterface } from "readline";
+import { EngineWorker } from "@/types/engine";
+
+// Runs a native engine binary, or the Node build of a JavaScript engine
+export const getNodeEngineWorker = (enginePath: string): EngineWorker => {
+  const isScript = /\.(c|m)?js$/.test(enginePath);
+  const engineProcess = isScript
+    ? spawn(process.execPath, [enginePath])
+    : spawn(enginePath);
+  let isTerminated = false;
+
+  const engineWorker: EngineWorker = {
+    isReady: false,
+    uci: (command: string) => {
+      if (!isTerminated) engineProcess.stdin.write(`${command}\n`);
+    },
+    listen: () => null,
+    onError: () => null,
+    terminate: () => {
+      isTerminated = true;
+      engineProcess.kill();
+    },
+  };
+
+  createInterface({ input: engineProcess.stdout }).on("line", (line) =>
+    engineWorker.listen(line)
+  );
+
+  engineProcess.on("error", (error) => engineWorker.onError(error.message));
+  engineProcess.on("exit", (code, signal) => {
+    if (isTerminated) return;
+    isTerminated = true;
+    engineWorker.onError(`Engine process exited with ${code ?? signal}`);
+  });
+  engineProcess.stdin.on("error", (error) => {
+    if (!isTerminated) engineWorker.onError(error.message);
+  });
+
+  return engineWorker;
+};
@@ -0,0 +1,59 @@
+import { Chess } from "chess.js";
+import { getLineEvalLabel } from "@/lib/chess";
+import { GameEval, LineEval } from "@/types/eval";
+
+// Games of a PGN file are separated by the headers of the next game
+export const splitPgnGames = (pgn: string): string[] =>
+  pgn
+    .replace(/\r\n/g, "\n")
+    .split(/\n\s*\n(?=\[)/)
+    .map((gamePgn) => gamePgn.trim())
+    .filter(Boolean);
+
+export const getAnnotatedPgn = (game: Chess, gameEval: GameEval): string => {
+  const annotatedGame = new Chess(game.getHeaders().FEN);
+  for (const [key, value] of Object.entries(game.getHeaders())) {
+    annotatedGame.setHeader(key, value);
+  }
+  annotatedGame.setHeader("Annotator", "Chesskit");
+
+  const { accuracy, estimatedElo } = gameEval;
+  annotatedGame.setComment(
+    [
+      `Accuracy: white ${accuracy.white.toFixed(1)}, black ${accuracy.black.toFixed(1)}`,
+      estimatedElo &&
+        `Estimated Elo: white ${Math.round(estimatedElo.white)}, black ${Math.round(estimatedElo.black)}`,
+    ]
+      .filter(Boolean)
+      .join(". ")
+  );
+
+  const history = game.history({ verbose: true });
+  history.forEach((move, i) => {
+    annotatedGame.move(move.san);
+
+    const position = gameEval.positions[i + 1];
+    const line = position?.lines[0];
+    if (!line) return;
+
+    annotatedGame.setComment(
+      [
+        `[%eval ${getPgnEvalLabel(line)}]`,
+        position.moveClassification &&
+          position.moveClassification.charAt(0).toUpperCase() +
+            position.moveClassification.slice(1),
+      ]
+        .filter(Boolean)
+        .join(" ")
+    );
+  });
+
+  return annotatedGame.pgn();
+};
+
+// Evaluations in PGN comments are in pawns without sign for positive values
+const getPgnEvalLabel = (line: LineEval): string => {
+  if (line.mate !== undefined) return `#${line.mate}`;
+
+  return getLineEvalLabel(line).replace("+", "");
+};
@@ -0,0 +1,18 @@
+import Module from "module";
+import path from "path";
+
+// The compiled files keep the "@/" imports of the sources, which are resolved
+// from the root of the compiled sources
+const moduleWithResolve = Module as unknown as {
+  _resolveFilename: (request: string, ...args: unknown[]) => string;
+};
+const resolveFilename = moduleWithResolve._resolveFilename;
+const sourcesRoot = path.resolve(__dirname, "..");
+
+moduleWithResolve._resolveFilename = (request, ...args) =>
+  resolveFilename(
+    request.startsWith("@/")
+      ? path.join(sourcesRoot, request.slice(2))
+      : request,
+    ...args
+  );
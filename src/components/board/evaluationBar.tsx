@@ -9,15 +9,18 @@ interface Props {
   height: number;
   boardOrientation?: Color;
   currentPositionAtom?: PrimitiveAtom<CurrentPosition>;
+  showWdl?: boolean;
 }
 
 export default function EvaluationBar({
   height,
   boardOrientation,
   currentPositionAtom = atom({}),
+  showWdl = false,
 }: Props) {
   const [evalBar, setEvalBar] = useState({
     whiteBarPercentage: 50,
+    drawPercentage: 0,
     label: "0.0",
   });
   const position = useAtomValue(currentPositionAtom);
@@ -26,9 +29,14 @@ export default function EvaluationBar({
     const bestLine = position?.eval?.lines[0];
     if (!position.eval || !bestLine || bestLine.depth < 6) return;
 
-    const evalBar = getEvaluationBarValue(position.eval);
+    const evalBar = getEvaluationBarValue(position.eval, showWdl);
     setEvalBar(evalBar);
-  }, [position]);
+  }, [position, showWdl]);
+
+  const blackBarPercentage =
+    100 - evalBar.whiteBarPercentage - evalBar.drawPercentage;
+  const isWhiteBetter =
+    evalBar.whiteBarPercentage + evalBar.drawPercentage / 2 >= 50;
 
   return (
     <Grid
@@ -48,7 +56,7 @@ export default function EvaluationBar({
         }}
         height={`${
           boardOrientation === Color.White
-            ? 100 - evalBar.whiteBarPercentage
+            ? blackBarPercentage
             : evalBar.whiteBarPercentage
         }%`}
         width="100%"
@@ -61,14 +69,21 @@ export default function EvaluationBar({
           textAlign="center"
           width="100%"
         >
-          {(evalBar.whiteBarPercentage < 50 &&
-            boardOrientation === Color.White) ||
-          (evalBar.whiteBarPercentage >= 50 && boardOrientation === Color.Black)
+          {(!isWhiteBetter && boardOrientation === Color.White) ||
+          (isWhiteBetter && boardOrientation === Color.Black)
             ? evalBar.label
             : ""}
         </Typography>
       </Box>
 
+      {!!evalBar.drawPercentage && (
+        <Box
+          sx={{ backgroundColor: "grey", transition: "height 1s" }}
+          height={`${evalBar.drawPercentage}%`}
+          width="100%"
+        />
+      )}
+
       <Box
         sx={{
           backgroundColor:
@@ -78,7 +93,7 @@ export default function EvaluationBar({
         height={`${
           boardOrientation === Color.White
             ? evalBar.whiteBarPercentage
-            : 100 - evalBar.whiteBarPercentage
+            : blackBarPercentage
         }%`}
         width={"100%"}
         display="flex"
@@ -92,9 +107,8 @@ export default function EvaluationBar({
           textAlign="center"
           width="100%"
         >
-          {(evalBar.whiteBarPercentage >= 50 &&
-            boardOrientation === Color.White) ||
-          (evalBar.whiteBarPercentage < 50 && boardOrientation === Color.Black)
+          {(isWhiteBetter && boardOrientation === Color.White) ||
+          (!isWhiteBetter && boardOrientation === Color.Black)
             ? evalBar.label
             : ""}
         </Typography>
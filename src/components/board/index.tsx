@@ -32,8 +32,23 @@ export interface Props {
   boardOrientation?: Color;
   currentPositionAtom?: PrimitiveAtom<CurrentPosition>;
   showBestMoveArrow?: boolean;
+  // Uci move of the opponent's threat, shown with its own arrow
+  threatMove?: string;
+  // Uci move suggested to the player, shown as the best move
+  hintMove?: string;
   showPlayerMoveIconAtom?: PrimitiveAtom<boolean>;
   showEvaluationBar?: boolean;
+  showWdl?: boolean;
+  // Running clocks, replacing the ones read from the move comments
+  clocksMs?: Record<Color, number>;
+  // Comment added to the moves played on the board
+  getMoveComment?: () => string | undefined;
+  // Moves played on the board are dropped when it returns false
+  shouldPlayMove?: (move: {
+    from: string;
+    to: string;
+    promotion?: string;
+  }) => boolean;
 }
 
 export default function Board({
@@ -46,12 +61,18 @@ export default function Board({
   boardOrientation = Color.White,
   currentPositionAtom = atom({}),
   showBestMoveArrow = false,
+  threatMove,
+  hintMove,
   showPlayerMoveIconAtom,
   showEvaluationBar = false,
+  showWdl = false,
+  clocksMs,
+  getMoveComment,
+  shouldPlayMove,
 }: Props) {
   const boardRef = useRef<HTMLDivElement>(null);
   const game = useAtomValue(gameAtom);
-  const { playMove } = useChessActions(gameAtom);
+  const { playMove: playGameMove } = useChessActions(gameAtom);
   const clickedSquaresAtom = useMemo(() => atom<Square[]>([]), []);
   const setClickedSquares = useSetAtom(clickedSquaresAtom);
   const playableSquaresAtom = useMemo(() => atom<Square[]>([]), []);
@@ -69,6 +90,15 @@ export default function Board({
     setClickedSquares([]);
   }, [gameFen, setClickedSquares]);
 
+  const playMove = useCallback(
+    (params: { from: Square; to: Square; promotion?: string }) => {
+      if (shouldPlayMove && !shouldPlayMove(params)) return null;
+
+      return playGameMove({ ...params, comment: getMoveComment?.() });
+    },
+    [playGameMove, getMoveComment, shouldPlayMove]
+  );
+
   const isPiecePlayable = useCallback(
     ({ piece }: { piece: string }): boolean => {
       if (game.isGameOver() || !canPlay) return false;
@@ -211,6 +241,30 @@ export default function Board({
     const bestMove = position?.lastEval?.bestMove;
     const moveClassification = position?.eval?.moveClassification;
 
+    const threatArrows = threatMove
+      ? [
+          [
+            threatMove.slice(0, 2),
+            threatMove.slice(2, 4),
+            tinycolor(CLASSIFICATION_COLORS[MoveClassification.Blunder])
+              .spin(-boardHue)
+              .toHexString(),
+          ] as Arrow,
+        ]
+      : [];
+
+    if (hintMove) {
+      const hintMoveArrow = [
+        hintMove.slice(0, 2),
+        hintMove.slice(2, 4),
+        tinycolor(CLASSIFICATION_COLORS[MoveClassification.Best])
+          .spin(-boardHue)
+          .toHexString(),
+      ] as Arrow;
+
+      return [hintMoveArrow, ...threatArrows];
+    }
+
     if (
       bestMove &&
       showBestMoveArrow &&
@@ -227,11 +281,11 @@ export default function Board({
           .toHexString(),
       ] as Arrow;
 
-      return [bestMoveArrow];
+      return [bestMoveArrow, ...threatArrows];
     }
 
-    return [];
-  }, [position, showBestMoveArrow, boardHue]);
+    return threatArrows;
+  }, [position, showBestMoveArrow, threatMove, hintMove, boardHue]);
 
   const SquareRenderer: CustomSquareRenderer = useMemo(() => {
     return getSquareRenderer({
@@ -295,6 +349,7 @@ export default function Board({
           height={boardRef?.current?.offsetHeight || boardSize || 400}
           boardOrientation={boardOrientation}
           currentPositionAtom={currentPositionAtom}
+          showWdl={showWdl}
         />
       )}
 
@@ -310,6 +365,11 @@ export default function Board({
           color={boardOrientation === Color.White ? Color.Black : Color.White}
           gameAtom={gameAtom}
           player={boardOrientation === Color.White ? blackPlayer : whitePlayer}
+          clockMs={
+            clocksMs?.[
+              boardOrientation === Color.White ? Color.Black : Color.White
+            ]
+          }
         />
 
         <Grid
@@ -346,6 +406,7 @@ export default function Board({
           color={boardOrientation}
           gameAtom={gameAtom}
           player={boardOrientation === Color.White ? whitePlayer : blackPlayer}
+          clockMs={clocksMs?.[boardOrientation]}
         />
       </Grid>
     </Grid>
@@ -6,19 +6,29 @@ import { PrimitiveAtom, useAtomValue } from "jotai";
 import { Chess } from "chess.js";
 import { useMemo } from "react";
 import { getPaddedNumber } from "@/lib/helpers";
+import { getClockMsFromComment } from "@/lib/clock";
 
 export interface Props {
   player: Player;
   color: Color;
   gameAtom: PrimitiveAtom<Chess>;
+  // Running clock, instead of the one of the last move comment
+  clockMs?: number;
 }
 
-export default function PlayerHeader({ color, player, gameAtom }: Props) {
+export default function PlayerHeader({
+  color,
+  player,
+  gameAtom,
+  clockMs,
+}: Props) {
   const game = useAtomValue(gameAtom);
 
   const gameFen = game.fen();
 
   const clock = useMemo(() => {
+    if (clockMs !== undefined) return getClock(clockMs);
+
     const turn = game.turn();
 
     if (turn === color) {
@@ -29,12 +39,12 @@ export default function PlayerHeader({ color, player, gameAtom }: Props) {
         .getComments()
         .find(({ fen }) => fen === previousFen)?.comment;
 
-      return getClock(comment);
+      return getClock(getClockMsFromComment(comment));
     }
 
     const comment = game.getComment();
-    return getClock(comment);
-  }, [game, color]);
+    return getClock(getClockMsFromComment(comment));
+  }, [game, color, clockMs]);
 
   return (
     <Grid
@@ -98,16 +108,15 @@ export default function PlayerHeader({ color, player, gameAtom }: Props) {
   );
 }
 
-const getClock = (comment: string | undefined) => {
-  if (!comment) return undefined;
+const getClock = (clockMs: number | undefined) => {
+  if (clockMs === undefined) return undefined;
 
-  const match = comment.match(/\[%clk (\d+):(\d+):(\d+)(?:\.(\d*))?\]/);
-  if (!match) return undefined;
+  const tenths = Math.floor(clockMs / 100);
 
   return {
-    hours: parseInt(match[1]),
-    minutes: parseInt(match[2]),
-    seconds: parseInt(match[3]),
-    tenths: match[4] ? parseInt(match[4]) : 0,
+    hours: Math.floor(tenths / 36_000),
+    minutes: Math.floor(tenths / 600) % 60,
+    seconds: Math.floor(tenths / 10) % 60,
+    tenths: tenths % 10,
   };
 };
@@ -1,4 +1,10 @@
-import { EngineName, MoveClassification } from "./types/enums";
+import {
+  EngineName,
+  EvalProviderName,
+  MoveClassification,
+} from "./types/enums";
+import { EvalProvidersSettings } from "./types/eval";
+import { TimeControl } from "./types/game";
 
 export const MAIN_THEME_COLOR = "#3B9AC6";
 export const LINEAR_PROGRESS_BAR_COLOR = "#3B9AC6";
@@ -16,6 +22,19 @@ export const CLASSIFICATION_COLORS: Record<MoveClassification, string> = {
   [MoveClassification.Blunder]: "#df5353",
 };
 
+export const MOVE_CLASSIFICATION_LABELS: Record<MoveClassification, string> = {
+  [MoveClassification.Opening]: "an opening move",
+  [MoveClassification.Forced]: "forced",
+  [MoveClassification.Splendid]: "splendid !!",
+  [MoveClassification.Perfect]: "the only good move !",
+  [MoveClassification.Best]: "the best move",
+  [MoveClassification.Excellent]: "excellent",
+  [MoveClassification.Okay]: "an okay move",
+  [MoveClassification.Inaccuracy]: "an inaccuracy",
+  [MoveClassification.Mistake]: "a mistake",
+  [MoveClassification.Blunder]: "a blunder",
+};
+
 export const DEFAULT_ENGINE: EngineName = EngineName.Stockfish17Lite;
 export const STRONGEST_ENGINE: EngineName = EngineName.Stockfish17;
 
@@ -58,6 +77,28 @@ export const ENGINE_LABELS: Record<
     small: "Stockfish 11",
     sizeMb: 2,
   },
+  [EngineName.Fake]: {
+    full: "Fake engine (scripted output)",
+    small: "Fake engine",
+    sizeMb: 0,
+  },
+};
+
+export const EVAL_PROVIDER_LABELS: Record<EvalProviderName, string> = {
+  [EvalProviderName.Cache]: "Local evaluation cache",
+  [EvalProviderName.LichessCloud]: "Lichess cloud evaluation",
+  [EvalProviderName.Http]: "Custom evaluation server",
+  [EvalProviderName.Engine]: "Local engine",
+};
+
+export const DEFAULT_EVAL_PROVIDERS_SETTINGS: EvalProvidersSettings = {
+  providers: [
+    { name: EvalProviderName.Cache, enabled: true },
+    { name: EvalProviderName.LichessCloud, enabled: true },
+    { name: EvalProviderName.Http, enabled: false },
+  ],
+  offline: false,
+  httpEndpoint: "",
 };
 
 export const PIECE_SETS = [
@@ -103,3 +144,31 @@ export const PIECE_SETS = [
   "tatiana",
   "xkcd",
 ] as const satisfies string[];
+
+export const TIME_CONTROLS: TimeControl[] = [
+  { id: "60+0", category: "Bullet", initialMs: 60_000, incrementMs: 0 },
+  { id: "120+1", category: "Bullet", initialMs: 120_000, incrementMs: 1_000 },
+  { id: "180+0", category: "Blitz", initialMs: 180_000, incrementMs: 0 },
+  { id: "180+2", category: "Blitz", initialMs: 180_000, incrementMs: 2_000 },
+  { id: "300+3", category: "Blitz", initialMs: 300_000, incrementMs: 3_000 },
+  { id: "600+0", category: "Rapid", initialMs: 600_000, incrementMs: 0 },
+  { id: "600+5", category: "Rapid", initialMs: 600_000, incrementMs: 5_000 },
+  {
+    id: "900+10",
+    category: "Rapid",
+    initialMs: 900_000,
+    incrementMs: 10_000,
+  },
+  {
+    id: "1800+0",
+    category: "Classical",
+    initialMs: 1_800_000,
+    incrementMs: 0,
+  },
+  {
+    id: "1800+20",
+    category: "Classical",
+    initialMs: 1_800_000,
+    incrementMs: 20_000,
+  },
+];
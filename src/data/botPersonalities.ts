@@ -0,0 +1,64 @@
+import { BotPersonality } from "@/types/engine";
+
+export const BOT_PERSONALITIES: BotPersonality[] = [
+  {
+    id: "rookie",
+    name: "Rookie",
+    description:
+      "Has just learned the rules, goes for early queen attacks and often misses what you threaten.",
+    elo: 600,
+    bookLines: ["e4 e5 Qh5 Nc6 Bc4 Nf6", "e4 e5 Nf3 Nc6 Bc4 Nf6 d3"],
+    tacticalBias: 0.5,
+    thinkTimeMs: [300, 1200],
+  },
+  {
+    id: "gambiteer",
+    name: "Gambiteer",
+    description:
+      "Gives away pawns in the opening to get a lead in development and an attack.",
+    elo: 1200,
+    bookLines: [
+      "e4 e5 f4 exf4 Nf3 g5",
+      "e4 e5 Nf3 Nc6 Bc4 Bc5 b4 Bxb4 c3",
+      "e4 e5 d4 exd4 c3 dxc3 Bc4",
+      "e4 e5 Nf3 Nc6 Bc4 Nf6 Ng5 Bc5",
+      "d4 d5 c4 e5",
+      "d4 Nf6 c4 e5 dxe5 Ng4",
+      "d4 e5 dxe5 Nc6 Nf3 Qe7",
+    ],
+    tacticalBias: 0.8,
+    thinkTimeMs: [500, 2000],
+  },
+  {
+    id: "aggressive",
+    name: "Attacker",
+    description:
+      "Plays sharp openings and looks for captures and checks at every move.",
+    elo: 1500,
+    bookLines: [
+      "e4 e5 Nf3 Nc6 Bc4 Bc5 c3 Nf6 d4",
+      "e4 e5 Nf3 Nc6 d4 exd4 Nxd4",
+      "e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 g6",
+      "d4 Nf6 c4 g6 Nc3 Bg7 e4 d6",
+    ],
+    tacticalBias: 1,
+    thinkTimeMs: [800, 2500],
+  },
+  {
+    id: "solid",
+    name: "Fortress",
+    description:
+      "Plays safe openings, avoids complications and takes its time to improve its position.",
+    elo: 1500,
+    bookLines: [
+      "d4 d5 c4 e6 Nc3 Nf6 Bg5 Be7",
+      "d4 d5 Bf4 Nf6 e3 e6 Nf3 c5",
+      "e4 c6 d4 d5 Nc3 dxe4 Nxe4 Bf5",
+      "e4 e6 d4 d5 Nc3 Nf6",
+      "d4 Nf6 c4 e6 Nc3 Bb4",
+      "d4 Nf6 c4 e6 Nf3 b6",
+    ],
+    tacticalBias: -0.7,
+    thinkTimeMs: [1500, 4000],
+  },
+];
@@ -9,6 +9,7 @@ export interface resetGameParams {
   fen?: string;
   white?: Player;
   black?: Player;
+  timeControl?: string;
   noHeaders?: boolean;
 }
 
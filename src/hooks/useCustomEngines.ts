@@ -0,0 +1,49 @@
+import {
+  addCustomEngine,
+  getCustomEngines,
+  isCustomEnginesStorageAvailable,
+  removeCustomEngine,
+} from "@/lib/customEngines";
+import { CustomEngine, CustomEngineId } from "@/types/engine";
+import { atom, useAtom } from "jotai";
+import { useCallback, useEffect } from "react";
+
+const customEnginesAtom = atom<CustomEngine[]>([]);
+
+export const useCustomEngines = () => {
+  const [customEngines, setCustomEngines] = useAtom(customEnginesAtom);
+
+  const loadCustomEngines = useCallback(async () => {
+    if (!isCustomEnginesStorageAvailable()) return;
+
+    try {
+      setCustomEngines(await getCustomEngines());
+    } catch (error) {
+      console.error(error);
+    }
+  }, [setCustomEngines]);
+
+  useEffect(() => {
+    loadCustomEngines();
+  }, [loadCustomEngines]);
+
+  const addEngine = useCallback(
+    async (params: Omit<CustomEngine, "id" | "options">) => {
+      const customEngine = await addCustomEngine(params);
+      await loadCustomEngines();
+
+      return customEngine;
+    },
+    [loadCustomEngines]
+  );
+
+  const removeEngine = useCallback(
+    async (id: CustomEngineId) => {
+      await removeCustomEngine(id);
+      await loadCustomEngines();
+    },
+    [loadCustomEngines]
+  );
+
+  return { customEngines, addEngine, removeEngine };
+};
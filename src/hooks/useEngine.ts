@@ -1,48 +1,114 @@
-import { isWasmSupported } from "@/lib/engine/shared";
-import { Stockfish11 } from "@/lib/engine/stockfish11";
-import { Stockfish16 } from "@/lib/engine/stockfish16";
-import { Stockfish16_1 } from "@/lib/engine/stockfish16_1";
-import { Stockfish17 } from "@/lib/engine/stockfish17";
+import {
+  getEngineLabel,
+  isCustomEngineId,
+  isWasmSupported,
+} from "@/lib/engine/shared";
 import { UciEngine } from "@/lib/engine/uciEngine";
 import { EngineName } from "@/types/enums";
+import { EngineId } from "@/types/engine";
+import { createEngine } from "@/lib/engine/createEngine";
 import { useEffect, useState } from "react";
+import { atom, useAtom, useAtomValue, useSetAtom } from "jotai";
+import {
+  engineOptionsAtom,
+  engineOptionValuesAtom,
+  engineSharedAtom,
+} from "@/sections/analysis/states";
+import { setEngineBrokerEnabled } from "@/lib/engine/engineBroker";
+import { ENGINE_FALLBACKS } from "@/lib/engine/engineAssets";
+import { useEngineDownloads } from "./useEngineDownloads";
 
-export const useEngine = (engineName: EngineName | undefined) => {
+const engineErrorAtom = atom("");
+
+export const useEngineError = () => useAtom(engineErrorAtom);
+
+export const useEngine = (engineName: EngineId | undefined) => {
   const [engine, setEngine] = useState<UciEngine | null>(null);
+  const setEngineError = useSetAtom(engineErrorAtom);
+  const setEngineOptions = useSetAtom(engineOptionsAtom);
+  const engineOptionValues = useAtomValue(engineOptionValuesAtom);
+  const isEngineShared = useAtomValue(engineSharedAtom);
+  const { download } = useEngineDownloads();
 
   useEffect(() => {
-    if (!engineName) return;
-
-    if (engineName !== EngineName.Stockfish11 && !isWasmSupported()) {
+    if (
+      !engineName ||
+      (engineName !== EngineName.Stockfish11 &&
+        engineName !== EngineName.Fake &&
+        !isCustomEngineId(engineName) &&
+        !isWasmSupported())
+    ) {
+      setEngine(null);
       return;
     }
 
-    pickEngine(engineName).then((newEngine) => {
-      setEngine((prev) => {
-        prev?.shutdown();
-        return newEngine;
+    setEngineBrokerEnabled(isEngineShared);
+
+    // A smaller engine is used when the download of the engine fails
+    const loadEngine = async (name: EngineId): Promise<UciEngine> => {
+      if (isCustomEngineId(name)) return createEngine(name);
+
+      try {
+        await download(name);
+      } catch (error) {
+        console.error(error);
+        const fallbackEngineName = ENGINE_FALLBACKS[name];
+        if (fallbackEngineName) return loadEngine(fallbackEngineName);
+      }
+
+      return createEngine(name);
+    };
+
+    let isCancelled = false;
+
+    loadEngine(engineName)
+      .then((newEngine) => {
+        if (isCancelled) {
+          newEngine.shutdown();
+          return;
+        }
+
+        setEngine(newEngine);
+      })
+      .catch((error) => {
+        console.error(error);
+        if (isCancelled) return;
+
+        setEngineError(
+          `${getEngineLabel(engineName)} could not be loaded: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        );
       });
-    });
-  }, [engineName]);
 
-  return engine;
-};
+    return () => {
+      isCancelled = true;
+    };
+  }, [engineName, isEngineShared, download, setEngineError]);
 
-const pickEngine = (engine: EngineName): Promise<UciEngine> => {
-  switch (engine) {
-    case EngineName.Stockfish17:
-      return Stockfish17.create(false);
-    case EngineName.Stockfish17Lite:
-      return Stockfish17.create(true);
-    case EngineName.Stockfish16_1:
-      return Stockfish16_1.create(false);
-    case EngineName.Stockfish16_1Lite:
-      return Stockfish16_1.create(true);
-    case EngineName.Stockfish16:
-      return Stockfish16.create(false);
-    case EngineName.Stockfish16NNUE:
-      return Stockfish16.create(true);
-    case EngineName.Stockfish11:
-      return Stockfish11.create();
-  }
+  // The engine is shut down once it is replaced, or when the hook unmounts
+  useEffect(() => {
+    if (!engine) return;
+
+    return () => engine.shutdown();
+  }, [engine]);
+
+  useEffect(() => {
+    if (!engine) return;
+
+    setEngineOptions((prev) => ({
+      ...prev,
+      [engine.name]: engine.getOptions(),
+    }));
+  }, [engine, setEngineOptions]);
+
+  const optionValues = engine ? engineOptionValues[engine.name] : undefined;
+
+  useEffect(() => {
+    if (!engine) return;
+
+    engine.setOptionValues(optionValues ?? {}).catch(console.error);
+  }, [engine, optionValues]);
+
+  return engine;
 };
@@ -0,0 +1,72 @@
+import {
+  deleteEngine,
+  downloadEngine,
+  isEngineCacheAvailable,
+  isEngineDownloaded,
+} from "@/lib/engine/engineAssets";
+import { EngineDownload, EngineId } from "@/types/engine";
+import { EngineName } from "@/types/enums";
+import { atom, useAtom } from "jotai";
+import { useCallback } from "react";
+
+const engineDownloadsAtom = atom<Partial<Record<EngineId, EngineDownload>>>({});
+
+// The analysis and the settings can ask for the same engine at the same time
+const pendingDownloads = new Map<EngineName, Promise<void>>();
+
+export const useEngineDownloads = () => {
+  const [downloads, setDownloads] = useAtom(engineDownloadsAtom);
+
+  const setDownload = useCallback(
+    (engineName: EngineName, download: EngineDownload) =>
+      setDownloads((prev) => ({ ...prev, [engineName]: download })),
+    [setDownloads]
+  );
+
+  const refreshDownloads = useCallback(async () => {
+    if (!isEngineCacheAvailable()) return;
+
+    for (const engineName of Object.values(EngineName)) {
+      if (pendingDownloads.has(engineName)) continue;
+
+      const isDownloaded = await isEngineDownloaded(engineName);
+      setDownload(engineName, {
+        status: isDownloaded ? "downloaded" : "notDownloaded",
+      });
+    }
+  }, [setDownload]);
+
+  const download = useCallback(
+    async (engineName: EngineName) => {
+      const pendingDownload = pendingDownloads.get(engineName);
+      if (pendingDownload) return pendingDownload;
+
+      const newDownload = downloadEngine(engineName, (progress) =>
+        setDownload(engineName, { status: "downloading", progress })
+      )
+        .then(() => setDownload(engineName, { status: "downloaded" }))
+        .catch((error) => {
+          setDownload(engineName, {
+            status: "failed",
+            error: error instanceof Error ? error.message : "Unknown error",
+          });
+          throw error;
+        })
+        .finally(() => pendingDownloads.delete(engineName));
+
+      pendingDownloads.set(engineName, newDownload);
+      return newDownload;
+    },
+    [setDownload]
+  );
+
+  const remove = useCallback(
+    async (engineName: EngineName) => {
+      await deleteEngine(engineName);
+      setDownload(engineName, { status: "notDownloaded" });
+    },
+    [setDownload]
+  );
+
+  return { downloads, download, remove, refreshDownloads };
+};
@@ -1,24 +1,14 @@
 import { formatGameToDatabase } from "@/lib/chess";
+import { GameDatabaseSchema, openGameDatabase } from "@/lib/database";
 import { GameEval } from "@/types/eval";
 import { Game } from "@/types/game";
 import { GameExplanations } from "@/types/explanation";
 import { Chess } from "chess.js";
-import { openDB, DBSchema, IDBPDatabase } from "idb";
+import { IDBPDatabase } from "idb";
 import { atom, useAtom } from "jotai";
 import { useRouter } from "next/router";
 import { useCallback, useEffect, useState } from "react";
 
-interface GameDatabaseSchema extends DBSchema {
-  games: {
-    value: Game;
-    key: number;
-  };
-  explanations: {
-    value: GameExplanations;
-    key: number; // gameId
-  };
-}
-
 const gamesAtom = atom<Game[]>([]);
 const fetchGamesAtom = atom<boolean>(false);
 
@@ -36,19 +26,7 @@ export const useGameDatabase = (shouldFetchGames?: boolean) => {
 
   useEffect(() => {
     const initDatabase = async () => {
-      const db = await openDB<GameDatabaseSchema>("games", 2, {
-        upgrade(db, oldVersion) {
-          if (oldVersion < 1) {
-            db.createObjectStore("games", {
-              keyPath: "id",
-              autoIncrement: true,
-            });
-          }
-          if (oldVersion < 2) {
-            db.createObjectStore("explanations", { keyPath: "gameId" });
-          }
-        },
-      });
+      const db = await openGameDatabase();
       setDb(db);
     };
 
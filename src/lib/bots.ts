@@ -0,0 +1,61 @@
+import { Chess, DEFAULT_POSITION } from "chess.js";
+import { BOT_PERSONALITIES } from "@/data/botPersonalities";
+import { openings } from "@/data/openings";
+import { BotPersonality } from "@/types/engine";
+
+export const DEFAULT_THINK_TIME_MS: [number, number] = [1000, 1000];
+
+export const getBotPersonality = (
+  id: string | undefined
+): BotPersonality | undefined =>
+  BOT_PERSONALITIES.find((personality) => personality.id === id);
+
+// Next move of a book line that starts with the moves of the game, picked at
+// random when several lines match
+export const getBookMove = (
+  personality: BotPersonality,
+  game: Chess,
+  random: () => number = Math.random
+): string | undefined => {
+  const history = game.history({ verbose: true });
+  const startingFen = history[0]?.before ?? game.fen();
+  if (startingFen !== DEFAULT_POSITION) return undefined;
+
+  const nextMoves = personality.bookLines
+    .map((line) => line.split(" "))
+    .filter(
+      (moves) =>
+        moves.length > history.length &&
+        history.every((move, i) => move.san === moves[i])
+    )
+    .map((moves) => moves[history.length]);
+  if (!nextMoves.length) return undefined;
+
+  const san = nextMoves[Math.floor(random() * nextMoves.length)];
+  const move = new Chess(game.fen()).move(san);
+
+  return move.from + move.to + (move.promotion ?? "");
+};
+
+// Names of the openings the book lines end in
+export const getBookOpeningNames = (personality: BotPersonality): string[] =>
+  personality.bookLines
+    .map((line) => {
+      const game = new Chess();
+      let openingName: string | undefined = undefined;
+
+      for (const san of line.split(" ")) {
+        const placement = game.move(san).after.split(" ")[0];
+        openingName =
+          openings.find((opening) => opening.fen === placement)?.name ??
+          openingName;
+      }
+
+      return openingName;
+    })
+    .filter((name): name is string => !!name);
+
+export const getThinkTimeMs = (
+  [minMs, maxMs]: [number, number],
+  random: () => number = Math.random
+): number => minMs + random() * (maxMs - minMs);
@@ -1,8 +1,9 @@
 import { EvaluateGameParams, LineEval, PositionEval } from "@/types/eval";
 import { Game, Player } from "@/types/game";
-import { Chess, PieceSymbol, Square } from "chess.js";
+import { Chess, DEFAULT_POSITION, PieceSymbol, Square } from "chess.js";
 import { getPositionWinPercentage } from "./engine/helpers/winPercentage";
 import { Color } from "@/types/enums";
+import { canWinOnTime } from "./clock";
 import { Piece } from "react-chessboard/dist/chessboard/types";
 
 export const getEvaluateGameParams = (game: Chess): EvaluateGameParams => {
@@ -55,7 +56,14 @@ export const getGameToSave = (game: Chess, board: Chess): Chess => {
 
 export const setGameHeaders = (
   game: Chess,
-  params: { white?: Player; black?: Player; resigned?: Color } = {}
+  params: {
+    white?: Player;
+    black?: Player;
+    resigned?: Color;
+    // Color whose flag fell
+    timeout?: Color;
+    timeControl?: string;
+  } = {}
 ): Chess => {
   game.setHeader("Event", "Chesskit Game");
   game.setHeader("Site", "Chesskit.org");
@@ -64,7 +72,7 @@ export const setGameHeaders = (
     new Date().toISOString().split("T")[0].replace(/-/g, ".")
   );
 
-  const { white, black, resigned } = params;
+  const { white, black, resigned, timeout, timeControl } = params;
 
   const whiteHeader = game.getHeaders().White;
   const blackHeader = game.getHeaders().Black;
@@ -87,6 +95,23 @@ export const setGameHeaders = (
     );
   }
 
+  if (timeControl) game.setHeader("TimeControl", timeControl);
+
+  if (timeout) {
+    const winnerColor = timeout === Color.White ? Color.Black : Color.White;
+
+    if (canWinOnTime(game.fen(), winnerColor)) {
+      game.setHeader("Result", timeout === "w" ? "0-1" : "1-0");
+      game.setHeader(
+        "Termination",
+        `${timeout === "w" ? blackName : whiteName} won on time`
+      );
+    } else {
+      game.setHeader("Result", "1/2-1/2");
+      game.setHeader("Termination", "Draw by timeout vs insufficient material");
+    }
+  }
+
   if (!game.isGameOver()) return game;
 
   if (game.isCheckmate()) {
@@ -131,17 +156,27 @@ export const moveLineUciToSan = (
 };
 
 export const getEvaluationBarValue = (
-  position: PositionEval
-): { whiteBarPercentage: number; label: string } => {
-  const whiteBarPercentage = getPositionWinPercentage(position);
+  position: PositionEval,
+  showWdl = false
+): { whiteBarPercentage: number; drawPercentage: number; label: string } => {
   const bestLine = position.lines[0];
+  const wdl = showWdl ? bestLine.wdl : undefined;
+
+  const whiteBarPercentage = wdl
+    ? wdl[0] / 10
+    : getPositionWinPercentage(position);
+  const drawPercentage = wdl ? wdl[1] / 10 : 0;
 
   if (bestLine.mate) {
-    return { label: `M${Math.abs(bestLine.mate)}`, whiteBarPercentage };
+    return {
+      label: `M${Math.abs(bestLine.mate)}`,
+      whiteBarPercentage,
+      drawPercentage,
+    };
   }
 
   const cp = bestLine.cp;
-  if (!cp) return { whiteBarPercentage, label: "0.0" };
+  if (!cp) return { whiteBarPercentage, drawPercentage, label: "0.0" };
 
   const pEval = Math.abs(cp) / 100;
   let label = pEval.toFixed(1);
@@ -150,7 +185,7 @@ export const getEvaluationBarValue = (
     label = pEval.toFixed(0);
   }
 
-  return { whiteBarPercentage, label };
+  return { whiteBarPercentage, drawPercentage, label };
 };
 
 export const getIsStalemate = (fen: string): boolean => {
@@ -158,6 +193,56 @@ export const getIsStalemate = (fen: string): boolean => {
   return game.isStalemate();
 };
 
+export interface PositionDrawStatus {
+  isClaimableDraw: boolean;
+  isHistoryDependent: boolean;
+}
+
+export const getPositionsDrawStatus = (
+  startingFen: string,
+  uciMoves: string[]
+): PositionDrawStatus[] => {
+  const game = new Chess(startingFen);
+  const seenPositions = new Set<string>();
+
+  const getDrawStatus = (): PositionDrawStatus => {
+    const [placement, turn, castling, enPassant, halfMoves] = game
+      .fen()
+      .split(" ");
+    const positionKey = `${placement} ${turn} ${castling} ${enPassant}`;
+    const isRepeatedPosition = seenPositions.has(positionKey);
+    seenPositions.add(positionKey);
+
+    return {
+      isClaimableDraw:
+        game.isThreefoldRepetition() || game.isDrawByFiftyMoves(),
+      // The engine may find a repetition or a fifty-move draw in its search,
+      // so an evaluation computed without the game moves can't be trusted
+      isHistoryDependent: isRepeatedPosition || parseInt(halfMoves) >= 80,
+    };
+  };
+
+  const drawStatus = [getDrawStatus()];
+  for (const uciMove of uciMoves) {
+    game.move(uciMoveParams(uciMove));
+    drawStatus.push(getDrawStatus());
+  }
+
+  return drawStatus;
+};
+
+export const getUciPositionCommand = (
+  startingFen: string,
+  uciMoves: string[] = []
+): string => {
+  const position =
+    startingFen === DEFAULT_POSITION ? "startpos" : `fen ${startingFen}`;
+
+  if (!uciMoves.length) return `position ${position}`;
+
+  return `position ${position} moves ${uciMoves.join(" ")}`;
+};
+
 export const getWhoIsCheckmated = (fen: string): "w" | "b" | null => {
   const game = new Chess(fen);
   if (!game.isCheckmate()) return null;
@@ -288,6 +373,22 @@ export const isCheck = (fen: string): boolean => {
   return game.inCheck();
 };
 
+// Position where the side to move passes its turn, which is illegal in check
+export const getNullMoveFen = (fen: string): string | undefined => {
+  if (isCheck(fen)) return undefined;
+
+  const [board, turn, castling, , halfMoves, fullMoves] = fen.split(" ");
+
+  return [
+    board,
+    turn === "w" ? "b" : "w",
+    castling,
+    "-",
+    Number(halfMoves) + 1,
+    turn === "b" ? Number(fullMoves) + 1 : fullMoves,
+  ].join(" ");
+};
+
 export const getCapturedPieces = (
   fen: string,
   color: Color
@@ -0,0 +1,90 @@
+import { Chess } from "chess.js";
+import { TIME_CONTROLS } from "@/constants";
+import { Color } from "@/types/enums";
+import { TimeControl } from "@/types/game";
+
+// Minimal time the engine keeps on its clock to play its move
+const ENGINE_MOVE_OVERHEAD_MS = 300;
+
+export const getTimeControl = (id: string): TimeControl | undefined =>
+  TIME_CONTROLS.find((timeControl) => timeControl.id === id);
+
+export const getTimeControlLabel = ({
+  initialMs,
+  incrementMs,
+}: TimeControl): string => `${initialMs / 60_000}+${incrementMs / 1000}`;
+
+// Example: 0:02:59.9
+export const getClockComment = (clockMs: number): string => {
+  const tenths = Math.floor(Math.max(clockMs, 0) / 100);
+  const hours = Math.floor(tenths / 36_000);
+  const minutes = Math.floor(tenths / 600) % 60;
+  const seconds = Math.floor(tenths / 10) % 60;
+
+  return `[%clk ${hours}:${getTwoDigits(minutes)}:${getTwoDigits(seconds)}.${tenths % 10}]`;
+};
+
+const getTwoDigits = (value: number): string => `${value}`.padStart(2, "0");
+
+export const getClockMsFromComment = (
+  comment: string | undefined
+): number | undefined => {
+  const match = comment?.match(/\[%clk (\d+):(\d+):(\d+)(?:\.(\d*))?\]/);
+  if (!match) return undefined;
+
+  return (
+    ((parseInt(match[1]) * 60 + parseInt(match[2])) * 60 + parseInt(match[3])) *
+      1000 +
+    (match[4] ? Math.round(parseFloat(`0.${match[4]}`) * 1000) : 0)
+  );
+};
+
+// Clock of the color after its last move, or the initial time if it has not
+// moved yet
+export const getGameClockMs = (
+  game: Chess,
+  color: Color,
+  timeControl: TimeControl
+): number => {
+  const comments = game.getComments();
+  const lastMove = game
+    .history({ verbose: true })
+    .filter((move) => move.color === color)
+    .at(-1);
+  if (!lastMove) return timeControl.initialMs;
+
+  const comment = comments.find(({ fen }) => fen === lastMove.after)?.comment;
+  return getClockMsFromComment(comment) ?? timeControl.initialMs;
+};
+
+// The engine spends a share of its remaining time, plus most of its increment
+export const getEngineMoveTimeMs = (
+  clockMs: number,
+  timeControl: TimeControl
+): number =>
+  Math.max(
+    Math.min(
+      clockMs / 30 + timeControl.incrementMs * 0.8,
+      clockMs - ENGINE_MOVE_OVERHEAD_MS
+    ),
+    50
+  );
+
+// A player whose flag falls only loses if the opponent could still mate
+export const canWinOnTime = (fen: string, winnerColor: Color): boolean => {
+  const pieces = new Chess(fen)
+    .board()
+    .flat()
+    .filter((piece) => !!piece && piece.type !== "k");
+  const winnerPieces = pieces.filter((piece) => piece?.color === winnerColor);
+
+  if (!winnerPieces.length) return false;
+  if (
+    winnerPieces.length === 1 &&
+    (winnerPieces[0]?.type === "b" || winnerPieces[0]?.type === "n")
+  ) {
+    return winnerPieces.length < pieces.length;
+  }
+
+  return true;
+};
@@ -0,0 +1,69 @@
+import { CustomEngine, CustomEngineId, UciOption } from "@/types/engine";
+import { openGameDatabase } from "./database";
+
+export const isCustomEnginesStorageAvailable = () =>
+  typeof indexedDB !== "undefined";
+
+export const getCustomEngines = async (): Promise<CustomEngine[]> => {
+  const db = await openGameDatabase();
+  return db.getAll("customEngines");
+};
+
+export const getCustomEngine = async (
+  id: CustomEngineId
+): Promise<CustomEngine | undefined> => {
+  const db = await openGameDatabase();
+  return db.get("customEngines", id);
+};
+
+export const addCustomEngine = async ({
+  name,
+  url,
+  file,
+}: Omit<CustomEngine, "id" | "options">): Promise<CustomEngine> => {
+  if (!name.trim()) {
+    throw new Error("The engine needs a name");
+  }
+
+  if (!file && !url) {
+    throw new Error("The engine needs a file or a URL");
+  }
+
+  // Web workers can only be created from scripts of the same origin
+  if (
+    url &&
+    new URL(url, window.location.href).origin !== window.location.origin
+  ) {
+    throw new Error(
+      `The engine must be served from the same origin as this site (${window.location.origin})`
+    );
+  }
+
+  const customEngine: CustomEngine = {
+    id: `custom_${crypto.randomUUID()}`,
+    name: name.trim(),
+    url: file ? undefined : url,
+    file,
+  };
+
+  const db = await openGameDatabase();
+  await db.put("customEngines", customEngine);
+
+  return customEngine;
+};
+
+export const removeCustomEngine = async (id: CustomEngineId): Promise<void> => {
+  const db = await openGameDatabase();
+  await db.delete("customEngines", id);
+};
+
+export const setCustomEngineOptions = async (
+  id: CustomEngineId,
+  options: UciOption[]
+): Promise<void> => {
+  const db = await openGameDatabase();
+  const customEngine = await db.get("customEngines", id);
+  if (!customEngine) return;
+
+  await db.put("customEngines", { ...customEngine, options });
+};
@@ -0,0 +1,63 @@
+import { CustomEngine } from "@/types/engine";
+import { CachedEval } from "@/types/eval";
+import { GameExplanations } from "@/types/explanation";
+import { Game, UnfinishedGame } from "@/types/game";
+import { DBSchema, IDBPDatabase, openDB } from "idb";
+
+export interface GameDatabaseSchema extends DBSchema {
+  games: {
+    value: Game;
+    key: number;
+  };
+  explanations: {
+    value: GameExplanations;
+    key: number; // gameId
+  };
+  evals: {
+    value: CachedEval;
+    key: string;
+    indexes: { lastUsedAt: number };
+  };
+  customEngines: {
+    value: CustomEngine;
+    key: string;
+  };
+  unfinishedGames: {
+    value: UnfinishedGame;
+    key: string;
+  };
+}
+
+let databasePromise: Promise<IDBPDatabase<GameDatabaseSchema>> | null = null;
+
+export const openGameDatabase = (): Promise<
+  IDBPDatabase<GameDatabaseSchema>
+> => {
+  if (!databasePromise) {
+    databasePromise = openDB<GameDatabaseSchema>("games", 5, {
+      upgrade(db, oldVersion) {
+        if (oldVersion < 1) {
+          db.createObjectStore("games", {
+            keyPath: "id",
+            autoIncrement: true,
+          });
+        }
+        if (oldVersion < 2) {
+          db.createObjectStore("explanations", { keyPath: "gameId" });
+        }
+        if (oldVersion < 3) {
+          const evalsStore = db.createObjectStore("evals", { keyPath: "id" });
+          evalsStore.createIndex("lastUsedAt", "lastUsedAt");
+        }
+        if (oldVersion < 4) {
+          db.createObjectStore("customEngines", { keyPath: "id" });
+        }
+        if (oldVersion < 5) {
+          db.createObjectStore("unfinishedGames", { keyPath: "id" });
+        }
+      },
+    });
+  }
+
+  return databasePromise;
+};
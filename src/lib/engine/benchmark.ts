@@ -0,0 +1,67 @@
+import { BenchmarkResult, EngineId } from "@/types/engine";
+import { createEngine } from "./createEngine";
+
+// Positions taken from the Stockfish bench command
+export const BENCHMARK_FENS = [
+  "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1",
+  "r3k2r/p1ppqpb1/bn2pnp1/3PN3/1p2P3/2N2Q1p/PPPBBPPP/R3K2R w KQkq - 0 10",
+  "8/2p5/3p4/KP5r/1R3p1k/8/4P1P1/8 w - - 0 11",
+  "4rrk1/pp1n3p/3q2pQ/2p1pb2/2PP4/2P3N1/P2B2PP/4RRK1 b - - 7 19",
+  "rq3rk1/ppp2ppp/1bnpb3/3N2B1/3NP3/7P/PPPQ1PP1/2KR3R w - - 7 14",
+  "r1bq1r1k/1pp1n1pp/1p1p4/4p2Q/4Pp2/1BNP4/PPP2PPP/3R1RK1 w - - 2 14",
+  "r3r1k1/2p2ppp/p1p1bn2/8/1q2P3/2NPQN2/PPP3PP/R4RK1 b - - 2 15",
+  "r1bbk1nr/pp3p1p/2n5/1N4p1/2Np1B2/8/PPP2PPP/2KR1B1R w kq - 0 13",
+];
+
+const AVERAGE_GAME_POSITIONS_NB = 80;
+
+interface RunBenchmarkParams {
+  engineNames: EngineId[];
+  workersNbs: number[];
+  depth: number;
+  onResult: (result: BenchmarkResult) => void;
+  signal?: AbortSignal;
+}
+
+export const runBenchmark = async ({
+  engineNames,
+  workersNbs,
+  depth,
+  onResult,
+  signal,
+}: RunBenchmarkParams): Promise<void> => {
+  for (const engineName of engineNames) {
+    signal?.throwIfAborted();
+    const engine = await createEngine(engineName);
+
+    try {
+      for (const workersNb of workersNbs) {
+        signal?.throwIfAborted();
+        const result = await engine.benchmark({
+          fens: BENCHMARK_FENS,
+          depth,
+          workersNb,
+          signal,
+        });
+        onResult(result);
+      }
+    } finally {
+      engine.shutdown();
+    }
+  }
+};
+
+export const getEstimatedGameDurationMs = (result: BenchmarkResult): number =>
+  (result.durationMs / result.positionsNb) * AVERAGE_GAME_POSITIONS_NB;
+
+export const getBestWorkersNb = (
+  results: BenchmarkResult[]
+): number | undefined => {
+  const bestResult = results.reduce<BenchmarkResult | undefined>(
+    (best, result) =>
+      !best || result.durationMs < best.durationMs ? result : best,
+    undefined
+  );
+
+  return bestResult?.workersNb;
+};
@@ -0,0 +1,43 @@
+import { EngineName } from "@/types/enums";
+import { CustomEngineId, EngineId } from "@/types/engine";
+import { getCustomEngine } from "../customEngines";
+import { CustomUciEngine } from "./customEngine";
+import { FakeEngine } from "./fakeEngine";
+import { isCustomEngineId } from "./shared";
+import { Stockfish11 } from "./stockfish11";
+import { Stockfish16 } from "./stockfish16";
+import { Stockfish16_1 } from "./stockfish16_1";
+import { Stockfish17 } from "./stockfish17";
+import { UciEngine } from "./uciEngine";
+
+export const createEngine = (engine: EngineId): Promise<UciEngine> => {
+  if (isCustomEngineId(engine)) return createCustomEngine(engine);
+
+  switch (engine) {
+    case EngineName.Stockfish17:
+      return Stockfish17.create(false);
+    case EngineName.Stockfish17Lite:
+      return Stockfish17.create(true);
+    case EngineName.Stockfish16_1:
+      return Stockfish16_1.create(false);
+    case EngineName.Stockfish16_1Lite:
+      return Stockfish16_1.create(true);
+    case EngineName.Stockfish16:
+      return Stockfish16.create(false);
+    case EngineName.Stockfish16NNUE:
+      return Stockfish16.create(true);
+    case EngineName.Stockfish11:
+      return Stockfish11.create();
+    case EngineName.Fake:
+      return FakeEngine.create();
+  }
+};
+
+const createCustomEngine = async (id: CustomEngineId): Promise<UciEngine> => {
+  const customEngine = await getCustomEngine(id);
+  if (!customEngine) {
+    throw new Error(`Custom engine ${id} not found`);
+  }
+
+  return CustomUciEngine.create(customEngine);
+};
@@ -0,0 +1,33 @@
+import { CustomEngine } from "@/types/engine";
+import { UciEngine } from "./uciEngine";
+import { setCustomEngineOptions } from "../customEngines";
+
+export class CustomUciEngine {
+  public static async create(customEngine: CustomEngine): Promise<UciEngine> {
+    if (!CustomUciEngine.isSupported()) {
+      throw new Error("Custom engines are not supported");
+    }
+
+    const enginePath = customEngine.file
+      ? URL.createObjectURL(customEngine.file)
+      : customEngine.url;
+    if (!enginePath) {
+      throw new Error(`${customEngine.name} has no file or URL`);
+    }
+
+    let engine: UciEngine;
+    try {
+      engine = await UciEngine.create(customEngine.id, enginePath);
+    } catch (error) {
+      if (customEngine.file) URL.revokeObjectURL(enginePath);
+      throw error;
+    }
+    await setCustomEngineOptions(customEngine.id, engine.getOptions());
+
+    return engine;
+  }
+
+  public static isSupported() {
+    return typeof Worker !== "undefined";
+  }
+}
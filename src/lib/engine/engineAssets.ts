@@ -0,0 +1,214 @@
+import { EngineName } from "@/types/enums";
+import { EngineDownloadProgress } from "@/types/engine";
+import { ENGINE_LABELS } from "@/constants";
+import { isMultiThreadSupported } from "./shared";
+import ENGINE_FILE_HASHES from "./engineHashes.json";
+
+// To bump whenever the engine files in public/engines are rebuilt, so that
+// the files cached from the previous build are not served anymore
+const ENGINES_BUILD_VERSION = 2;
+const ENGINES_CACHE_NAME = `engines-v${ENGINES_BUILD_VERSION}`;
+// SHA-256 of the files of this build, pinned with npm run engines:hashes
+const ENGINE_FILE_SHA256: Record<string, string | undefined> =
+  ENGINE_FILE_HASHES;
+const ENGINE_CACHE_WORKER_PATH = "/engine-cache-worker.js";
+
+// Engines to use instead when the download of an engine fails
+export const ENGINE_FALLBACKS: Partial<Record<EngineName, EngineName>> = {
+  [EngineName.Stockfish17]: EngineName.Stockfish17Lite,
+  [EngineName.Stockfish17Lite]: EngineName.Stockfish16_1Lite,
+  [EngineName.Stockfish16_1]: EngineName.Stockfish16_1Lite,
+  [EngineName.Stockfish16_1Lite]: EngineName.Stockfish11,
+  [EngineName.Stockfish16NNUE]: EngineName.Stockfish16,
+  [EngineName.Stockfish16]: EngineName.Stockfish11,
+};
+
+export const isEngineCacheAvailable = () =>
+  typeof caches !== "undefined" && "serviceWorker" in navigator;
+
+// The service worker serves the cached engine files to the engine workers,
+// and removes the caches of the previous engine builds. It is registered when
+// the app starts, so that it already serves the first engine worker.
+export const registerEngineCacheWorker = async (): Promise<void> => {
+  if (!isEngineCacheAvailable()) return;
+
+  await navigator.serviceWorker.register(
+    `${ENGINE_CACHE_WORKER_PATH}?cache=${ENGINES_CACHE_NAME}`
+  );
+};
+
+export const getEngineFiles = (engineName: EngineName): string[] => {
+  const single = isMultiThreadSupported() ? "" : "-single";
+
+  switch (engineName) {
+    case EngineName.Stockfish17:
+      return [
+        `/engines/stockfish-17/stockfish-17${single}.js`,
+        ...new Array(6)
+          .fill(0)
+          .map(
+            (_, i) =>
+              `/engines/stockfish-17/stockfish-17${single}-part-${i}.wasm`
+          ),
+      ];
+    case EngineName.Stockfish17Lite:
+      return getScriptAndWasm(
+        `/engines/stockfish-17/stockfish-17-lite${single}`
+      );
+    case EngineName.Stockfish16_1:
+      return getScriptAndWasm(
+        `/engines/stockfish-16.1/stockfish-16.1${single}`
+      );
+    case EngineName.Stockfish16_1Lite:
+      return getScriptAndWasm(
+        `/engines/stockfish-16.1/stockfish-16.1-lite${single}`
+      );
+    case EngineName.Stockfish16NNUE:
+    case EngineName.Stockfish16:
+      return getScriptAndWasm(
+        `/engines/stockfish-16/stockfish-nnue-16${single}`
+      );
+    case EngineName.Stockfish11:
+      return ["/engines/stockfish-11.js"];
+    case EngineName.Fake:
+      return [];
+  }
+};
+
+const getScriptAndWasm = (pathWithoutExtension: string): string[] => [
+  `${pathWithoutExtension}.js`,
+  `${pathWithoutExtension}.wasm`,
+];
+
+export const isEngineDownloaded = async (
+  engineName: EngineName
+): Promise<boolean> => {
+  if (!isEngineCacheAvailable()) return false;
+
+  const cache = await caches.open(ENGINES_CACHE_NAME);
+  const responses = await Promise.all(
+    getEngineFiles(engineName).map((file) => cache.match(file))
+  );
+
+  return responses.every((response) => !!response);
+};
+
+export const downloadEngine = async (
+  engineName: EngineName,
+  onProgress?: (progress: EngineDownloadProgress) => void
+): Promise<void> => {
+  if (!isEngineCacheAvailable()) return;
+
+  const cache = await caches.open(ENGINES_CACHE_NAME);
+  const files = getEngineFiles(engineName);
+  const estimatedTotalBytes = ENGINE_LABELS[engineName].sizeMb * 1024 * 1024;
+  let loadedBytes = 0;
+
+  const reportProgress = () =>
+    onProgress?.({
+      loadedBytes,
+      totalBytes: Math.max(estimatedTotalBytes, loadedBytes),
+    });
+
+  for (const file of files) {
+    // Files are only cached once their download is complete and intact
+    const cachedResponse = await cache.match(file);
+    if (cachedResponse) {
+      loadedBytes += Number(cachedResponse.headers.get("Content-Length") ?? 0);
+      reportProgress();
+      continue;
+    }
+
+    const response = await fetch(file);
+    if (!response.ok || !response.body) {
+      throw new Error(`Failed to download ${file} : ${response.status}`);
+    }
+
+    const chunks: Uint8Array[] = [];
+    const reader = response.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      chunks.push(value);
+      loadedBytes += value.length;
+      reportProgress();
+    }
+
+    const blob = new Blob(chunks);
+    const expectedSize = response.headers.get("Content-Length");
+    // Compressed responses report the compressed size
+    if (
+      expectedSize &&
+      !response.headers.get("Content-Encoding") &&
+      Number(expectedSize) !== blob.size
+    ) {
+      throw new Error(
+        `Incomplete download of ${file} : ${blob.size} bytes out of ${expectedSize}`
+      );
+    }
+
+    const expectedHash = ENGINE_FILE_SHA256[file];
+    if (!expectedHash) {
+      throw new Error(`No pinned hash for ${file}`);
+    }
+    if ((await getSha256(blob)) !== expectedHash) {
+      throw new Error(`Corrupted download of ${file} : hash mismatch`);
+    }
+
+    await cache.put(
+      file,
+      new Response(blob, {
+        headers: {
+          ...getIsolationHeaders(response),
+          "Content-Type":
+            response.headers.get("Content-Type") ?? getContentType(file),
+          "Content-Length": String(blob.size),
+        },
+      })
+    );
+  }
+
+  // The engine worker must be served from the cache, not downloaded again
+  await registerEngineCacheWorker();
+  await navigator.serviceWorker.ready;
+
+  onProgress?.({ loadedBytes, totalBytes: loadedBytes });
+};
+
+export const getDownloadPercentage = ({
+  loadedBytes,
+  totalBytes,
+}: EngineDownloadProgress): number =>
+  totalBytes ? Math.floor((loadedBytes / totalBytes) * 100) : 0;
+
+export const deleteEngine = async (engineName: EngineName): Promise<void> => {
+  if (!isEngineCacheAvailable()) return;
+
+  const cache = await caches.open(ENGINES_CACHE_NAME);
+  await Promise.all(
+    getEngineFiles(engineName).map((file) => cache.delete(file))
+  );
+};
+
+const getSha256 = async (blob: Blob): Promise<string> => {
+  const hashBuffer = await crypto.subtle.digest(
+    "SHA-256",
+    await blob.arrayBuffer()
+  );
+
+  return Array.from(new Uint8Array(hashBuffer))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+};
+
+// Multi-threaded engines need their worker to be cross-origin isolated
+const getIsolationHeaders = (response: Response): Record<string, string> =>
+  Object.fromEntries(
+    ["Cross-Origin-Embedder-Policy", "Cross-Origin-Opener-Policy"]
+      .map((header) => [header, response.headers.get(header)])
+      .filter((entry): entry is [string, string] => !!entry[1])
+  );
+
+const getContentType = (file: string): string =>
+  file.endsWith(".wasm") ? "application/wasm" : "application/javascript";
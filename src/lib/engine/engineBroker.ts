@@ -0,0 +1,119 @@
+import { BrokerRequest, BrokerResponse, EngineWorker } from "@/types/engine";
+import {
+  getLocalEngineWorker,
+  getRecommendedWorkersNb,
+  setSharedEngineWorkerFactory,
+} from "./worker";
+
+let brokerPort: MessagePort | undefined = undefined;
+const brokerClients = new Map<string, (response: BrokerResponse) => void>();
+
+export const isEngineBrokerSupported = () =>
+  typeof SharedWorker !== "undefined";
+
+export const setEngineBrokerEnabled = (enabled: boolean) => {
+  setSharedEngineWorkerFactory(
+    enabled && isEngineBrokerSupported()
+      ? (enginePath) =>
+          getBrokerEngineWorker(enginePath, getRecommendedWorkersNb(), () =>
+            getLocalEngineWorker(enginePath)
+          )
+      : undefined
+  );
+};
+
+const getBrokerPort = (): MessagePort => {
+  if (brokerPort) return brokerPort;
+
+  const sharedWorker = new SharedWorker(
+    new URL("./engineBroker.worker.ts", import.meta.url),
+    { name: "engine-broker" }
+  );
+  const port = sharedWorker.port;
+
+  port.onmessage = (event: MessageEvent<BrokerResponse>) => {
+    brokerClients.get(event.data.id)?.(event.data);
+  };
+  port.start();
+
+  window.addEventListener("pagehide", () =>
+    postRequest(port, { type: "disconnect" })
+  );
+
+  brokerPort = port;
+  return port;
+};
+
+const postRequest = (port: MessagePort, request: BrokerRequest) =>
+  port.postMessage(request);
+
+// The engine runs in the broker shared by all the tabs, or in a worker of this
+// tab if the broker can't host it
+const getBrokerEngineWorker = (
+  enginePath: string,
+  maxEnginesNb: number,
+  getLocalWorker: () => EngineWorker
+): EngineWorker => {
+  console.log(`Creating shared worker client for ${enginePath}`);
+
+  const port = getBrokerPort();
+  const id = crypto.randomUUID();
+  let localWorker: EngineWorker | undefined = undefined;
+  let unansweredCommands: string[] = [];
+
+  const engineWorker: EngineWorker = {
+    isReady: false,
+    uci: (command: string) => {
+      if (localWorker) {
+        localWorker.uci(command);
+        return;
+      }
+
+      unansweredCommands.push(command);
+      postRequest(port, { type: "uci", id, command });
+    },
+    listen: () => null,
+    onError: () => null,
+    terminate: () => {
+      brokerClients.delete(id);
+
+      if (localWorker) {
+        localWorker.terminate();
+      } else {
+        postRequest(port, { type: "terminate", id });
+      }
+    },
+  };
+
+  brokerClients.set(id, (response) => {
+    switch (response.type) {
+      case "message":
+        unansweredCommands = [];
+        engineWorker.listen(response.data);
+        break;
+      case "error":
+        engineWorker.onError(response.error);
+        break;
+      case "unsupported":
+        brokerClients.delete(id);
+        localWorker = getLocalWorker();
+        localWorker.listen = (data) => engineWorker.listen(data);
+        localWorker.onError = (error) => engineWorker.onError(error);
+        for (const command of unansweredCommands) {
+          localWorker.uci(command);
+        }
+        unansweredCommands = [];
+        break;
+    }
+  });
+
+  postRequest(port, {
+    type: "create",
+    id,
+    enginePath: new URL(enginePath, window.location.href).href,
+    maxEnginesNb,
+    crossOriginIsolated: window.crossOriginIsolated,
+  });
+
+  return engineWorker;
+};
@@ -0,0 +1,310 @@
+import { BrokerRequest, BrokerResponse } from "@/types/engine";
+import { parseUciOptions } from "./helpers/uciOptions";
+
+// Shared worker hosting a pool of engine workers for all the tabs of the app.
+// Each tab-side engine worker is a client, the pool engines are lent to the
+// clients one job at a time, and an engine that was last used by another
+// client gets a new game, the default values of the options that client set
+// and the UCI options of its new client.
+
+interface SharedWorkerScope {
+  onconnect: ((event: MessageEvent) => void) | null;
+  crossOriginIsolated: boolean;
+}
+
+interface Client {
+  id: string;
+  port: MessagePort;
+  enginePath: string;
+  pendingCommands: string[];
+  options: Map<string, string>;
+  engine?: PoolEngine;
+  expectedRepliesNb: number;
+  isClosed: boolean;
+  waitingInterval?: ReturnType<typeof setInterval>;
+}
+
+interface PoolEngine {
+  worker: Worker;
+  defaultOptions: Map<string, string>;
+  client?: Client;
+  lastClient?: Client;
+}
+
+interface Pool {
+  engines: PoolEngine[];
+  clients: Client[];
+  maxEnginesNb: number;
+}
+
+const WAITING_MESSAGE_INTERVAL = 10_000;
+
+const scope = globalThis as unknown as SharedWorkerScope;
+const pools = new Map<string, Pool>();
+const clients = new Map<string, Client>();
+
+scope.onconnect = (event) => {
+  const port = event.ports[0];
+
+  port.onmessage = (event: MessageEvent<BrokerRequest>) => {
+    const request = event.data;
+
+    switch (request.type) {
+      case "create":
+        createClient(port, request);
+        break;
+      case "uci":
+        sendCommand(request.id, request.command);
+        break;
+      case "terminate":
+        terminateClient(request.id);
+        break;
+      case "disconnect":
+        for (const client of [...clients.values()]) {
+          if (client.port === port) terminateClient(client.id);
+        }
+        break;
+    }
+  };
+
+  port.start();
+};
+
+const postResponse = (client: Client, response: BrokerResponse) => {
+  if (!client.isClosed) client.port.postMessage(response);
+};
+
+const createClient = (
+  port: MessagePort,
+  request: Extract<BrokerRequest, { type: "create" }>
+) => {
+  // Multi-threaded engines can only run in the broker if it is cross-origin
+  // isolated like the tab, otherwise the tab has to host them itself
+  if (
+    typeof Worker === "undefined" ||
+    (request.crossOriginIsolated && !scope.crossOriginIsolated)
+  ) {
+    port.postMessage({ type: "unsupported", id: request.id });
+    return;
+  }
+
+  const client: Client = {
+    id: request.id,
+    port,
+    enginePath: request.enginePath,
+    pendingCommands: [],
+    options: new Map(),
+    expectedRepliesNb: 0,
+    isClosed: false,
+  };
+  clients.set(client.id, client);
+
+  const pool = getPool(request.enginePath);
+  pool.clients.push(client);
+  pool.maxEnginesNb = Math.max(pool.maxEnginesNb, request.maxEnginesNb);
+};
+
+const getPool = (enginePath: string): Pool => {
+  const pool = pools.get(enginePath) ?? {
+    engines: [],
+    clients: [],
+    maxEnginesNb: 1,
+  };
+  pools.set(enginePath, pool);
+
+  return pool;
+};
+
+const sendCommand = (clientId: string, command: string) => {
+  const client = clients.get(clientId);
+  if (!client || command === "quit") return;
+
+  if (command.startsWith("setoption name ")) {
+    client.options.set(getOptionName(command), command);
+  }
+
+  if (client.engine) {
+    postCommandToEngine(client, command);
+    return;
+  }
+
+  client.pendingCommands.push(command);
+  processPool(getPool(client.enginePath));
+};
+
+const getOptionName = (command: string): string =>
+  command.replace("setoption name ", "").split(" value ")[0];
+
+const postCommandToEngine = (client: Client, command: string) => {
+  if (command === "uci" || command === "isready" || command.startsWith("go")) {
+    client.expectedRepliesNb++;
+  }
+
+  client.engine?.worker.postMessage(command);
+};
+
+const processPool = (pool: Pool) => {
+  const waitingClients = pool.clients.filter(
+    (client) => !client.engine && client.pendingCommands.length
+  );
+
+  for (const client of waitingClients) {
+    const idleEngines = pool.engines.filter((engine) => !engine.client);
+    const engine =
+      idleEngines.find((engine) => engine.lastClient === client) ??
+      idleEngines[0] ??
+      (pool.engines.length < pool.maxEnginesNb
+        ? createEngine(pool, client.enginePath)
+        : undefined);
+
+    if (engine) {
+      lendEngine(engine, client);
+    } else {
+      waitForEngine(client);
+    }
+  }
+
+  // Engines are freed once they outnumber their clients
+  for (const engine of pool.engines.filter((engine) => !engine.client)) {
+    if (pool.engines.length <= pool.clients.length) break;
+    removeEngine(pool, engine);
+  }
+};
+
+// The tab expects regular messages from a running job, so it is told that
+// its commands are waiting for an engine to be available
+const waitForEngine = (client: Client) => {
+  if (client.waitingInterval) return;
+
+  const postWaitingMessage = () =>
+    postResponse(client, {
+      type: "message",
+      id: client.id,
+      data: "info string waiting for a shared engine",
+    });
+
+  postWaitingMessage();
+  client.waitingInterval = setInterval(
+    postWaitingMessage,
+    WAITING_MESSAGE_INTERVAL
+  );
+};
+
+const createEngine = (pool: Pool, enginePath: string): PoolEngine => {
+  const engine: PoolEngine = {
+    worker: new Worker(enginePath),
+    defaultOptions: new Map(),
+  };
+
+  engine.worker.onmessage = (event: MessageEvent<string>) => {
+    for (const option of parseUciOptions(event.data.split("\n"))) {
+      if (option.default !== undefined) {
+        engine.defaultOptions.set(option.name, option.default);
+      }
+    }
+
+    const client = engine.client;
+    if (!client) return;
+
+    postResponse(client, { type: "message", id: client.id, data: event.data });
+
+    if (
+      event.data.startsWith("uciok") ||
+      event.data.startsWith("readyok") ||
+      event.data.startsWith("bestmove")
+    ) {
+      client.expectedRepliesNb--;
+      if (client.expectedRepliesNb <= 0) returnEngine(pool, engine);
+    }
+  };
+
+  engine.worker.onerror = (event) => {
+    event.preventDefault();
+
+    const client = engine.client;
+    if (client) {
+      postResponse(client, {
+        type: "error",
+        id: client.id,
+        error: event.message || "Engine worker crashed",
+      });
+      client.engine = undefined;
+      client.expectedRepliesNb = 0;
+    }
+
+    removeEngine(pool, engine);
+    processPool(pool);
+  };
+
+  pool.engines.push(engine);
+
+  return engine;
+};
+
+const lendEngine = (engine: PoolEngine, client: Client) => {
+  clearInterval(client.waitingInterval);
+  client.waitingInterval = undefined;
+
+  engine.client = client;
+  client.engine = engine;
+
+  if (engine.lastClient && engine.lastClient !== client) {
+    engine.worker.postMessage("ucinewgame");
+
+    for (const name of engine.lastClient.options.keys()) {
+      const defaultValue = engine.defaultOptions.get(name);
+      if (client.options.has(name) || defaultValue === undefined) continue;
+
+      engine.worker.postMessage(`setoption name ${name} value ${defaultValue}`);
+    }
+
+    for (const command of client.options.values()) {
+      engine.worker.postMessage(command);
+    }
+  }
+
+  const commands = client.pendingCommands;
+  client.pendingCommands = [];
+  for (const command of commands) {
+    postCommandToEngine(client, command);
+  }
+};
+
+const returnEngine = (pool: Pool, engine: PoolEngine) => {
+  const client = engine.client;
+  if (client) {
+    client.engine = undefined;
+    client.expectedRepliesNb = 0;
+  }
+
+  engine.client = undefined;
+  engine.lastClient = client;
+
+  processPool(pool);
+};
+
+const removeEngine = (pool: Pool, engine: PoolEngine) => {
+  engine.worker.terminate();
+  pool.engines = pool.engines.filter((e) => e !== engine);
+};
+
+const terminateClient = (clientId: string) => {
+  const client = clients.get(clientId);
+  if (!client) return;
+
+  clients.delete(clientId);
+  clearInterval(client.waitingInterval);
+  client.isClosed = true;
+  client.pendingCommands = [];
+
+  const pool = getPool(client.enginePath);
+  pool.clients = pool.clients.filter((c) => c !== client);
+
+  // A running search is stopped, the engine is given back once it has
+  // sent its last replies
+  if (client.engine) {
+    client.engine.worker.postMessage("stop");
+  } else {
+    processPool(pool);
+  }
+};
@@ -0,0 +1,21 @@
+import { EngineId } from "@/types/engine";
+
+export class EngineWorkerError extends Error {
+  constructor(
+    message: string,
+    public readonly reason: "crash" | "timeout"
+  ) {
+    super(message);
+    this.name = "EngineWorkerError";
+  }
+}
+
+export class EngineCrashedError extends Error {
+  constructor(
+    public readonly engineName: EngineId,
+    public readonly failuresNb: number
+  ) {
+    super(`${engineName} failed ${failuresNb} times in a row`);
+    this.name = "EngineCrashedError";
+  }
+}
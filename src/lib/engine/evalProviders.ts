@@ -0,0 +1,110 @@
+import { EvalProviderName } from "@/types/enums";
+import { EvalProvider, EvalRequest } from "@/types/engine";
+import { EvalProvidersSettings, PositionEval } from "@/types/eval";
+import { getCachedEval, setCachedEval } from "../evalCache";
+import { getLichessEval } from "../lichess";
+
+const HTTP_EVAL_TIMEOUT = 2000;
+
+const cacheEvalProvider: EvalProvider = {
+  name: EvalProviderName.Cache,
+  isLocal: true,
+  getEval: ({ fen, engine, depth, multiPv }) =>
+    getCachedEval(fen, engine, depth, multiPv),
+  saveEval: ({ fen, engine, multiPv }, positionEval) =>
+    setCachedEval(fen, engine, multiPv, positionEval),
+};
+
+const lichessCloudEvalProvider: EvalProvider = {
+  name: EvalProviderName.LichessCloud,
+  isLocal: false,
+  getEval: ({ fen, multiPv }) => getLichessEval(fen, multiPv),
+};
+
+// The endpoint must implement the Lichess cloud eval API, so that a local
+// server can stand in for the cloud
+const getHttpEvalProvider = (endpoint: string): EvalProvider => ({
+  name: EvalProviderName.Http,
+  isLocal: isLocalUrl(endpoint),
+  getEval: ({ fen, multiPv }) =>
+    getLichessEval(fen, multiPv, endpoint, HTTP_EVAL_TIMEOUT),
+});
+
+const isLocalUrl = (url: string): boolean => {
+  try {
+    const { hostname } = new URL(url);
+    return ["localhost", "127.0.0.1", "[::1]"].includes(hostname);
+  } catch {
+    return false;
+  }
+};
+
+export const getEvalProviders = ({
+  providers,
+  offline,
+  httpEndpoint,
+}: EvalProvidersSettings): EvalProvider[] =>
+  providers
+    .filter(({ enabled }) => enabled)
+    .map(({ name }) => {
+      switch (name) {
+        case EvalProviderName.Cache:
+          return cacheEvalProvider;
+        case EvalProviderName.LichessCloud:
+          return lichessCloudEvalProvider;
+        case EvalProviderName.Http:
+          return httpEndpoint ? getHttpEvalProvider(httpEndpoint) : undefined;
+        case EvalProviderName.Engine:
+          return undefined;
+      }
+    })
+    .filter(
+      (provider): provider is EvalProvider =>
+        !!provider && (!offline || provider.isLocal)
+    );
+
+// Evals without WDL are skipped, so that the engine searches the position
+// again instead of rating it with the cp model
+export const getWdlEvalProviders = (
+  providers: EvalProvider[]
+): EvalProvider[] =>
+  providers.map((provider) => ({
+    ...provider,
+    getEval: async (request) => {
+      const positionEval = await provider.getEval(request);
+      return positionEval?.lines.every((line) => !!line.wdl)
+        ? positionEval
+        : undefined;
+    },
+  }));
+
+export const getEvalFromProviders = async (
+  providers: EvalProvider[],
+  request: EvalRequest
+): Promise<PositionEval | undefined> => {
+  for (const [index, provider] of providers.entries()) {
+    const positionEval = await provider.getEval(request);
+    if (!positionEval) continue;
+
+    const isLastProvider = index === providers.length - 1;
+    if (!isLastProvider && !isEvalSufficient(positionEval, request)) continue;
+
+    // Cached evals are stored under the engine of the request, so only its
+    // own evals are saved, not the ones of remote providers
+    if (provider.name === EvalProviderName.Engine) {
+      for (const previousProvider of providers.slice(0, index)) {
+        previousProvider.saveEval?.(request, positionEval);
+      }
+    }
+
+    return positionEval;
+  }
+
+  return undefined;
+};
+
+const isEvalSufficient = (
+  positionEval: PositionEval,
+  { depth, multiPv }: EvalRequest
+): boolean =>
+  positionEval.lines.length >= multiPv && positionEval.lines[0].depth >= depth;
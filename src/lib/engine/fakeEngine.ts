@@ -0,0 +1,215 @@
+import { Chess, DEFAULT_POSITION } from "chess.js";
+import { EngineName } from "@/types/enums";
+import { EngineWorker, FakeEngineFixture } from "@/types/engine";
+import { getResultProperty } from "./helpers/parseResults";
+import { UciEngine } from "./uciEngine";
+
+const FAKE_ENGINE_FIXTURE_KEY = "fake-engine-fixture";
+const DEFAULT_FIXTURE_PATH = "engines/fake-engine.json";
+
+export class FakeEngine {
+  public static async create(): Promise<UciEngine> {
+    const fixture = await getFakeEngineFixture();
+
+    return UciEngine.create(
+      EngineName.Fake,
+      DEFAULT_FIXTURE_PATH,
+      undefined,
+      () => getFakeEngineWorker(fixture)
+    );
+  }
+
+  public static isSupported() {
+    return true;
+  }
+}
+
+// A fixture imported in the settings replaces the default one
+const getFakeEngineFixture = async (): Promise<FakeEngineFixture> => {
+  const storedFixture = window.localStorage.getItem(FAKE_ENGINE_FIXTURE_KEY);
+  if (storedFixture) return parseFakeEngineFixture(storedFixture);
+
+  const response = await fetch(DEFAULT_FIXTURE_PATH);
+  if (!response.ok) {
+    throw new Error(
+      `Failed to load the fake engine fixture : ${response.status}`
+    );
+  }
+
+  return parseFakeEngineFixture(await response.text());
+};
+
+export const setFakeEngineFixture = (fixture: string | null) => {
+  if (fixture === null) {
+    window.localStorage.removeItem(FAKE_ENGINE_FIXTURE_KEY);
+    return;
+  }
+
+  parseFakeEngineFixture(fixture);
+  window.localStorage.setItem(FAKE_ENGINE_FIXTURE_KEY, fixture);
+};
+
+export const isFakeEngineFixtureImported = (): boolean =>
+  !!window.localStorage.getItem(FAKE_ENGINE_FIXTURE_KEY);
+
+export const parseFakeEngineFixture = (fixture: string): FakeEngineFixture => {
+  const parsedFixture = JSON.parse(fixture);
+  if (
+    typeof parsedFixture !== "object" ||
+    typeof parsedFixture?.positions !== "object"
+  ) {
+    throw new Error("The fixture must have a positions object");
+  }
+
+  for (const [fen, position] of Object.entries<unknown>(
+    parsedFixture.positions
+  )) {
+    if (
+      !position ||
+      typeof position !== "object" ||
+      !("info" in position) ||
+      !Array.isArray(position.info) ||
+      !("bestmove" in position) ||
+      typeof position.bestmove !== "string"
+    ) {
+      throw new Error(`Invalid fixture for position ${fen}`);
+    }
+  }
+
+  return parsedFixture;
+};
+
+// Positions are matched without their move counters, and with the en passant
+// square only when a capture is possible, as chess.js writes it
+const getPositionKey = (fen: string): string =>
+  new Chess(fen).fen().split(" ").slice(0, 4).join(" ");
+
+// Answers UCI commands with the output scripted for each position, positions
+// missing from the fixture get a neutral evaluation of their first legal move
+export const getFakeEngineWorker = (
+  fixture: FakeEngineFixture
+): EngineWorker => {
+  const positions = new Map(
+    Object.entries(fixture.positions).map(([fen, position]) => [
+      getPositionKey(fen),
+      position,
+    ])
+  );
+  let fen = DEFAULT_POSITION;
+  let multiPv = 1;
+  let pendingBestMove: string | undefined = undefined;
+  let isTerminated = false;
+
+  const send = (messages: string[]) =>
+    setTimeout(() => {
+      if (isTerminated) return;
+      for (const message of messages) {
+        engineWorker.listen(message);
+      }
+    }, 0);
+
+  const getSearchOutput = (
+    searchMove?: string
+  ): { info: string[]; bestmove: string } => {
+    const position = positions.get(getPositionKey(fen));
+
+    // Searches restricted to a move replay the lines starting with it
+    if (searchMove) {
+      const info = position?.info.filter(
+        (line) => getResultProperty(line, "pv") === searchMove
+      );
+
+      return {
+        info: info?.length
+          ? info.map((line) => line.replace(/ multipv \d+/, " multipv 1"))
+          : [
+              `info depth 1 seldepth 1 multipv 1 score cp 0 wdl 0 1000 0 nodes 1 nps 1 pv ${searchMove}`,
+            ],
+        bestmove: searchMove,
+      };
+    }
+
+    if (position) {
+      return {
+        info: position.info.filter(
+          (line) => Number(getResultProperty(line, "multipv") ?? 1) <= multiPv
+        ),
+        bestmove: position.bestmove,
+      };
+    }
+
+    const [move] = new Chess(fen).moves({ verbose: true });
+    if (!move) {
+      return {
+        info: ["info depth 0 score mate 0"],
+        bestmove: "(none)",
+      };
+    }
+
+    const uciMove = move.from + move.to + (move.promotion ?? "");
+    return {
+      info: [
+        `info depth 1 seldepth 1 multipv 1 score cp 0 wdl 0 1000 0 nodes 1 nps 1 pv ${uciMove}`,
+      ],
+      bestmove: uciMove,
+    };
+  };
+
+  const engineWorker: EngineWorker = {
+    isReady: false,
+    uci: (command: string) => {
+      if (command === "uci") {
+        send([
+          `id name ${fixture.name ?? "Fake engine"}`,
+          "option name MultiPV type spin default 1 min 1 max 500",
+          "option name UCI_ShowWDL type check default false",
+          "uciok",
+        ]);
+      } else if (command === "isready") {
+        send(["readyok"]);
+      } else if (command.startsWith("setoption name MultiPV value ")) {
+        multiPv = parseInt(command.split(" ").pop() ?? "1");
+      } else if (command.startsWith("position ")) {
+        fen = getPositionFen(command);
+      } else if (command.startsWith("go")) {
+        const { info, bestmove } = getSearchOutput(
+          getResultProperty(command, "searchmoves")
+        );
+        if (command.includes("infinite")) {
+          pendingBestMove = bestmove;
+          send(info);
+        } else {
+          send([...info, `bestmove ${bestmove}`]);
+        }
+      } else if (command === "stop" && pendingBestMove) {
+        send([`bestmove ${pendingBestMove}`]);
+        pendingBestMove = undefined;
+      }
+    },
+    listen: () => null,
+    onError: () => null,
+    terminate: () => {
+      isTerminated = true;
+    },
+  };
+
+  return engineWorker;
+};
+
+// Example: position fen <fen> moves e2e4 e7e5
+const getPositionFen = (command: string): string => {
+  const [position, moves] = command.replace("position ", "").split(" moves ");
+  const game = new Chess(
+    position === "startpos" ? DEFAULT_POSITION : position.replace("fen ", "")
+  );
+
+  for (const move of moves?.split(" ") ?? []) {
+    game.move({
+      from: move.slice(0, 2),
+      to: move.slice(2, 4),
+      promotion: move.slice(4) || undefined,
+    });
+  }
+
+  return game.fen();
+};
@@ -5,10 +5,19 @@ import {
   getWeightedMean,
 } from "@/lib/math";
 import { Accuracy, PositionEval } from "@/types/eval";
-import { getPositionWinPercentage } from "./winPercentage";
-
-export const computeAccuracy = (positions: PositionEval[]): Accuracy => {
-  const positionsWinPercentage = positions.map(getPositionWinPercentage);
+import { canUseWdl, getPositionWinPercentage } from "./winPercentage";
+
+export const computeAccuracy = (
+  positions: PositionEval[],
+  useWdl = false
+): Accuracy => {
+  const isWdl = canUseWdl(
+    positions.map((position) => position.lines[0]),
+    useWdl
+  );
+  const positionsWinPercentage = positions.map((position) =>
+    getPositionWinPercentage(position, isWdl)
+  );
 
   const weights = getAccuracyWeights(positionsWinPercentage);
 
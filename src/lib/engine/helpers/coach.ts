@@ -0,0 +1,38 @@
+import { Chess } from "chess.js";
+import { LineEval, PositionEval } from "@/types/eval";
+import { getMovesClassification } from "./moveClassification";
+import { uciMoveParams } from "@/lib/chess";
+
+export const COACH_DEPTH = 12;
+export const COACH_HINTS_NB = 3;
+
+// Each legal move gets its own line, within the 2 to 6 lines the engine can
+// search, and the moves outside of the lines are searched once played
+export const getCoachMultiPv = (fen: string): number =>
+  Math.min(Math.max(new Chess(fen).moves().length, 2), 6);
+
+// The position after the move is evaluated from the line of the move, in the
+// evaluation of the position before it or from its own search
+export const getCoachMoveEval = (
+  positionEval: PositionEval,
+  fen: string,
+  uciMove: string,
+  playedMoveLine?: LineEval
+): PositionEval | undefined => {
+  const moveLine =
+    positionEval.lines.find((line) => line.pv[0] === uciMove) ??
+    (playedMoveLine?.pv[0] === uciMove ? playedMoveLine : undefined);
+  if (!moveLine) return undefined;
+
+  const moveEval: PositionEval = {
+    bestMove: moveLine.pv[1],
+    lines: [{ ...moveLine, pv: moveLine.pv.slice(1), multiPv: 1 }],
+  };
+  const nextFen = new Chess(fen).move(uciMoveParams(uciMove)).after;
+
+  return getMovesClassification(
+    [positionEval, moveEval],
+    [uciMove],
+    [fen, nextFen]
+  )[1];
+};
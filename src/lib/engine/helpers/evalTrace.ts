@@ -0,0 +1,91 @@
+import {
+  EvalTrace,
+  EvalTraceChange,
+  EvalTraceScore,
+  PositionEvalTrace,
+} from "@/types/eval";
+
+// Non-pawn material of the starting position, with minor pieces worth 1
+const MAX_GAME_PHASE = 24;
+const PIECE_PHASES: Record<string, number> = { n: 1, b: 1, r: 2, q: 4 };
+
+// Example of a row of the table printed by the eval command :
+// "     Mobility |  0.54  0.73 |  0.41  0.62 |  0.13  0.11"
+export const parseEvalTrace = (messages: string[]): EvalTrace => {
+  const lines = messages.flatMap((message) => message.split("\n"));
+  const trace: EvalTrace = { terms: [] };
+
+  for (const line of lines) {
+    const cells = line.split("|").map((cell) => cell.trim());
+
+    // Newer engines also surround the table with pipes
+    if (cells[0] === "") cells.shift();
+    if (cells.at(-1) === "") cells.pop();
+    if (cells.length !== 4) continue;
+
+    const [name, ...scores] = cells;
+    const [white, black, total] = scores.map(parseTraceScore);
+    if (!name || !total) continue;
+
+    if (name === "Total") {
+      trace.total = total;
+    } else {
+      trace.terms.push({ name, white, black, total });
+    }
+  }
+
+  const evaluationLine =
+    lines.find((line) => line.includes("Final evaluation")) ??
+    lines.find((line) => line.includes("Total evaluation"));
+  const evaluation = evaluationLine?.match(/evaluation:?\s+([+-]?\d+\.\d+)/);
+  if (evaluation) trace.evaluation = parseFloat(evaluation[1]);
+
+  return trace;
+};
+
+// Terms that do not apply to a side are printed with dashes
+const parseTraceScore = (cell: string): EvalTraceScore | undefined => {
+  const values = cell.split(/\s+/).map((value) => parseFloat(value));
+  if (values.length !== 2 || values.some(isNaN)) return undefined;
+
+  return { mg: values[0], eg: values[1] };
+};
+
+// The engine blends the middlegame and endgame values by the remaining material
+export const getTraceScoreValue = (
+  score: EvalTraceScore,
+  fen: string
+): number => {
+  const board = fen.split(" ")[0].toLowerCase();
+  const phase = [...board].reduce(
+    (sum, piece) => sum + (PIECE_PHASES[piece] ?? 0),
+    0
+  );
+  const mgWeight = Math.min(phase, MAX_GAME_PHASE) / MAX_GAME_PHASE;
+
+  return score.mg * mgWeight + score.eg * (1 - mgWeight);
+};
+
+// Terms of both positions, sorted by how much they changed
+export const getEvalTraceChanges = (
+  previous: PositionEvalTrace,
+  current: PositionEvalTrace
+): EvalTraceChange[] =>
+  current.trace.terms
+    .map((term) => {
+      const previousTerm = previous.trace.terms.find(
+        ({ name }) => name === term.name
+      );
+      const value = getTraceScoreValue(term.total, current.fen);
+      const previousValue = previousTerm
+        ? getTraceScoreValue(previousTerm.total, previous.fen)
+        : 0;
+
+      return {
+        name: term.name,
+        previousValue,
+        value,
+        change: value - previousValue,
+      };
+    })
+    .sort((a, b) => Math.abs(b.change) - Math.abs(a.change));
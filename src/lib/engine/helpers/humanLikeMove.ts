@@ -0,0 +1,131 @@
+import { Chess, Move } from "chess.js";
+import { LineEval } from "@/types/eval";
+import { getLineWinPercentage } from "./winPercentage";
+
+export const HUMAN_LIKE_MIN_ELO = 400;
+export const HUMAN_LIKE_MULTI_PV = 5;
+
+interface HumanLikeProfile {
+  depth: number;
+  // Win percentage loss that makes a line e times less likely to be played
+  temperature: number;
+  // Probability to play a plausible move without checking the engine lines
+  blunderRate: number;
+}
+
+// Profiles in between are interpolated, stronger ratings use the last one
+const HUMAN_LIKE_PROFILES: [number, HumanLikeProfile][] = [
+  [400, { depth: 3, temperature: 20, blunderRate: 0.2 }],
+  [800, { depth: 5, temperature: 12, blunderRate: 0.1 }],
+  [1200, { depth: 7, temperature: 7, blunderRate: 0.05 }],
+  [1600, { depth: 9, temperature: 4, blunderRate: 0.02 }],
+  [2000, { depth: 11, temperature: 2, blunderRate: 0.01 }],
+  [2400, { depth: 13, temperature: 1, blunderRate: 0 }],
+];
+
+export const getHumanLikeProfile = (elo: number): HumanLikeProfile => {
+  const upperIndex = HUMAN_LIKE_PROFILES.findIndex(
+    ([profileElo]) => profileElo >= elo
+  );
+  if (upperIndex === -1) return HUMAN_LIKE_PROFILES.at(-1)![1];
+  if (upperIndex === 0) return HUMAN_LIKE_PROFILES[0][1];
+
+  const [lowerElo, lower] = HUMAN_LIKE_PROFILES[upperIndex - 1];
+  const [upperElo, upper] = HUMAN_LIKE_PROFILES[upperIndex];
+  const ratio = (elo - lowerElo) / (upperElo - lowerElo);
+  const interpolate = (a: number, b: number) => a + (b - a) * ratio;
+
+  return {
+    depth: Math.round(interpolate(lower.depth, upper.depth)),
+    temperature: interpolate(lower.temperature, upper.temperature),
+    blunderRate: interpolate(lower.blunderRate, upper.blunderRate),
+  };
+};
+
+interface SelectHumanLikeMoveOptions {
+  // Positive values favor captures and checks, negative ones quiet moves
+  tacticalBias?: number;
+  random?: () => number;
+}
+
+// The worse a line is compared to the best one, the less likely it is to be
+// picked. Weaker players also sometimes play a natural looking move that the
+// engine did not consider at all.
+export const selectHumanLikeMove = (
+  fen: string,
+  lines: LineEval[],
+  elo: number,
+  { tacticalBias = 0, random = Math.random }: SelectHumanLikeMoveOptions = {}
+): string | undefined => {
+  const game = new Chess(fen);
+  const legalMoves = game.moves({ verbose: true });
+  if (!legalMoves.length) return undefined;
+
+  const { temperature, blunderRate } = getHumanLikeProfile(elo);
+  const scoredLines = lines.filter(
+    (line) =>
+      line.pv.length && (line.cp !== undefined || line.mate !== undefined)
+  );
+
+  if (!scoredLines.length || random() < blunderRate) {
+    return pickWeighted(
+      legalMoves.map((move) => ({
+        value: getUciMove(move),
+        weight: getMovePlausibility(move) * getStyleFactor(move, tacticalBias),
+      })),
+      random
+    );
+  }
+
+  // Win percentages of the side to move
+  const winPercentages = scoredLines.map((line) => {
+    const whiteWinPercentage = getLineWinPercentage(line);
+    return game.turn() === "w" ? whiteWinPercentage : 100 - whiteWinPercentage;
+  });
+  const bestWinPercentage = Math.max(...winPercentages);
+
+  return pickWeighted(
+    scoredLines.map((line, i) => {
+      const move = legalMoves.find((move) => getUciMove(move) === line.pv[0]);
+
+      return {
+        value: line.pv[0],
+        weight:
+          Math.exp(-(bestWinPercentage - winPercentages[i]) / temperature) *
+          (move ? getStyleFactor(move, tacticalBias) : 1),
+      };
+    }),
+    random
+  );
+};
+
+const isForcingMove = (move: Move): boolean =>
+  !!move.captured || move.san.includes("+");
+
+const getStyleFactor = (move: Move, tacticalBias: number): number =>
+  Math.exp(isForcingMove(move) ? tacticalBias : 0);
+
+// Captures and checks are the moves that catch the eye
+const getMovePlausibility = (move: Move): number => {
+  if (move.captured) return 3;
+  if (move.san.includes("+")) return 2;
+  return 1;
+};
+
+const getUciMove = (move: Move): string =>
+  move.from + move.to + (move.promotion ?? "");
+
+const pickWeighted = (
+  choices: { value: string; weight: number }[],
+  random: () => number
+): string => {
+  const totalWeight = choices.reduce((sum, choice) => sum + choice.weight, 0);
+  let threshold = random() * totalWeight;
+
+  for (const choice of choices) {
+    threshold -= choice.weight;
+    if (threshold < 0) return choice.value;
+  }
+
+  return choices[choices.length - 1].value;
+};
@@ -1,5 +1,6 @@
 import { LineEval, PositionEval } from "@/types/eval";
 import {
+  canUseWdl,
   getLineWinPercentage,
   getPositionWinPercentage,
 } from "./winPercentage";
@@ -7,12 +8,21 @@ import { MoveClassification } from "@/types/enums";
 import { openings } from "@/data/openings";
 import { getIsPieceSacrifice, isSimplePieceRecapture } from "@/lib/chess";
 
+const WIN_PERCENTAGE_LOSS_THRESHOLDS: [number, MoveClassification][] = [
+  [-20, MoveClassification.Blunder],
+  [-10, MoveClassification.Mistake],
+  [-5, MoveClassification.Inaccuracy],
+  [-2, MoveClassification.Okay],
+];
+const BORDERLINE_MARGIN = 2;
+const LARGE_SWING = 15;
+
 export const getMovesClassification = (
   rawPositions: PositionEval[],
   uciMoves: string[],
-  fens: string[]
+  fens: string[],
+  useWdl = false
 ): PositionEval[] => {
-  const positionsWinPercentage = rawPositions.map(getPositionWinPercentage);
   let currentOpening: string | undefined = undefined;
 
   const positions = rawPositions.map((rawPosition, index) => {
@@ -43,15 +53,26 @@ export const getMovesClassification = (
 
     const lastPositionAlternativeLine: LineEval | undefined =
       prevPosition.lines.filter((line) => line.pv[0] !== playedMove)?.[0];
+    const isWdl = canUseWdl(
+      [
+        prevPosition.lines[0],
+        rawPosition.lines[0],
+        ...(lastPositionAlternativeLine ? [lastPositionAlternativeLine] : []),
+      ],
+      useWdl
+    );
     const lastPositionAlternativeLineWinPercentage = lastPositionAlternativeLine
-      ? getLineWinPercentage(lastPositionAlternativeLine)
+      ? getLineWinPercentage(lastPositionAlternativeLine, isWdl)
       : undefined;
 
     const bestLinePvToPlay = rawPosition.lines[0].pv;
 
-    const lastPositionWinPercentage = positionsWinPercentage[index - 1];
-    const positionWinPercentage = positionsWinPercentage[index];
-    const isWhiteMove = index % 2 === 1;
+    const lastPositionWinPercentage = getPositionWinPercentage(
+      prevPosition,
+      isWdl
+    );
+    const positionWinPercentage = getPositionWinPercentage(rawPosition, isWdl);
+    const isWhiteMove = fens[index - 1].split(" ")[1] === "w";
 
     if (
       isSplendidMove(
@@ -125,13 +146,48 @@ const getMoveBasicClassification = (
     (positionWinPercentage - lastPositionWinPercentage) *
     (isWhiteMove ? 1 : -1);
 
-  if (winPercentageDiff < -20) return MoveClassification.Blunder;
-  if (winPercentageDiff < -10) return MoveClassification.Mistake;
-  if (winPercentageDiff < -5) return MoveClassification.Inaccuracy;
-  if (winPercentageDiff < -2) return MoveClassification.Okay;
+  for (const [threshold, classification] of WIN_PERCENTAGE_LOSS_THRESHOLDS) {
+    if (winPercentageDiff < threshold) return classification;
+  }
   return MoveClassification.Excellent;
 };
 
+// Returns the indexes of the positions around moves whose win percentage loss
+// is close to the Blunder, Mistake or Inaccuracy thresholds, or which swing
+// the evaluation a lot, as their classification could change with more depth
+export const getPositionsToDeepen = (
+  positions: PositionEval[],
+  fens: string[],
+  useWdl = false
+): number[] => {
+  const indexes = new Set<number>();
+
+  for (let index = 1; index < positions.length; index++) {
+    const isWhiteMove = fens[index - 1].split(" ")[1] === "w";
+    const isWdl = canUseWdl(
+      [positions[index - 1].lines[0], positions[index].lines[0]],
+      useWdl
+    );
+    const winPercentageDiff =
+      (getPositionWinPercentage(positions[index], isWdl) -
+        getPositionWinPercentage(positions[index - 1], isWdl)) *
+      (isWhiteMove ? 1 : -1);
+
+    const isBorderline = WIN_PERCENTAGE_LOSS_THRESHOLDS.some(
+      ([threshold, classification]) =>
+        classification !== MoveClassification.Okay &&
+        Math.abs(winPercentageDiff - threshold) < BORDERLINE_MARGIN
+    );
+
+    if (isBorderline || Math.abs(winPercentageDiff) > LARGE_SWING) {
+      indexes.add(index - 1);
+      indexes.add(index);
+    }
+  }
+
+  return Array.from(indexes).sort((a, b) => a - b);
+};
+
 const isSplendidMove = (
   lastPositionWinPercentage: number,
   positionWinPercentage: number,
@@ -1,5 +1,5 @@
 import { formatUciPv } from "@/lib/chess";
-import { LineEval, PositionEval } from "@/types/eval";
+import { LineEval, PositionEval, SearchStats } from "@/types/eval";
 
 export const parseEvaluationResults = (
   results: string[],
@@ -38,6 +38,7 @@ export const parseEvaluationResults = (
         pv,
         cp: cp ? parseInt(cp) : undefined,
         mate: mate ? parseInt(mate) : undefined,
+        wdl: getResultWdl(result),
         depth: parseInt(depth),
         multiPv: parseInt(multiPv),
       };
@@ -52,12 +53,35 @@ export const parseEvaluationResults = (
       ...line,
       cp: line.cp ? -line.cp : line.cp,
       mate: line.mate ? -line.mate : line.mate,
+      wdl: line.wdl ? [line.wdl[2], line.wdl[1], line.wdl[0]] : line.wdl,
     }));
   }
 
   return parsedResults;
 };
 
+export const parseSearchStats = (
+  results: string[]
+): SearchStats | undefined => {
+  for (const result of results.slice().reverse()) {
+    if (!result.startsWith("info")) continue;
+
+    const depth = getResultProperty(result, "depth");
+    const nodes = getResultProperty(result, "nodes");
+    if (!depth || !nodes) continue;
+
+    const nps = getResultProperty(result, "nps");
+
+    return {
+      depth: parseInt(depth),
+      nodes: parseInt(nodes),
+      nps: nps ? parseInt(nps) : undefined,
+    };
+  }
+
+  return undefined;
+};
+
 export const sortLines = (a: LineEval, b: LineEval): number => {
   if (a.mate !== undefined && b.mate !== undefined) {
     return a.mate - b.mate;
@@ -88,6 +112,22 @@ export const getResultProperty = (
   return splitResult[propertyIndex + 1];
 };
 
+const getResultWdl = (result: string): [number, number, number] | undefined => {
+  const splitResult = result.split(" ");
+  const wdlIndex = splitResult.indexOf("wdl");
+
+  if (wdlIndex === -1 || wdlIndex + 3 >= splitResult.length) {
+    return undefined;
+  }
+
+  const [win, draw, loss] = splitResult
+    .slice(wdlIndex + 1, wdlIndex + 4)
+    .map((value) => parseInt(value));
+  if ([win, draw, loss].some(isNaN)) return undefined;
+
+  return [win, draw, loss];
+};
+
 const getResultPv = (result: string, fen: string): string[] | undefined => {
   const splitResult = result.split(" ");
   const pvIndex = splitResult.indexOf("pv");
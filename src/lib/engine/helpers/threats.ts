@@ -0,0 +1,47 @@
+import { PositionEval, ThreatEval } from "@/types/eval";
+import { MoveClassification } from "@/types/enums";
+import {
+  getLineWinPercentage,
+  getPositionWinPercentage,
+} from "./winPercentage";
+
+// Win percentage the side to move would lose by letting the threat happen
+const MIN_THREAT_WIN_PERCENTAGE_LOSS = 10;
+
+const THREAT_IGNORING_CLASSIFICATIONS: MoveClassification[] = [
+  MoveClassification.Inaccuracy,
+  MoveClassification.Mistake,
+  MoveClassification.Blunder,
+];
+
+export const isSignificantThreat = (
+  fen: string,
+  positionEval: PositionEval,
+  threat: ThreatEval
+): boolean => {
+  const turnSign = fen.split(" ")[1] === "w" ? 1 : -1;
+  const winPercentageLoss =
+    (getPositionWinPercentage(positionEval) -
+      getLineWinPercentage(threat.line)) *
+    turnSign;
+
+  return winPercentageLoss >= MIN_THREAT_WIN_PERCENTAGE_LOSS;
+};
+
+// Only moves that lost ground can have ignored a threat
+export const canIgnoreThreat = (playedMoveEval: PositionEval): boolean =>
+  !!playedMoveEval.moveClassification &&
+  THREAT_IGNORING_CLASSIFICATIONS.includes(playedMoveEval.moveClassification);
+
+// A move ignored a significant threat when the opponent's best reply is still
+// the threatened move
+export const isThreatIgnored = (
+  fen: string,
+  positionEval: PositionEval,
+  playedMoveEval: PositionEval,
+  threat: ThreatEval
+): boolean =>
+  canIgnoreThreat(playedMoveEval) &&
+  isSignificantThreat(fen, positionEval, threat) &&
+  (playedMoveEval.bestMove ?? playedMoveEval.lines[0]?.pv[0]) ===
+    threat.line.pv[0];
@@ -0,0 +1,113 @@
+import { UciOption, UciOptionValues } from "@/types/engine";
+
+const UCI_OPTION_KEYWORDS = ["name", "type", "default", "min", "max", "var"];
+const UCI_OPTION_TYPES: UciOption["type"][] = [
+  "check",
+  "spin",
+  "combo",
+  "button",
+  "string",
+];
+
+export const parseUciOptions = (messages: string[]): UciOption[] =>
+  messages
+    .filter((message) => message.startsWith("option "))
+    .map(parseUciOption)
+    .filter((option): option is UciOption => !!option);
+
+// Example: option name Skill Level type spin default 20 min 0 max 20
+const parseUciOption = (message: string): UciOption | undefined => {
+  const values: Record<string, string[]> = {};
+  const vars: string[] = [];
+  let currentKeyword: string | undefined = undefined;
+
+  for (const token of message.split(" ").slice(1)) {
+    if (UCI_OPTION_KEYWORDS.includes(token)) {
+      currentKeyword = token;
+      if (token === "var") vars.push("");
+      else values[token] = [];
+      continue;
+    }
+
+    if (!currentKeyword) continue;
+
+    if (currentKeyword === "var") {
+      vars[vars.length - 1] = [vars[vars.length - 1], token]
+        .filter(Boolean)
+        .join(" ");
+    } else {
+      values[currentKeyword].push(token);
+    }
+  }
+
+  const name = values.name?.join(" ");
+  const type = values.type?.join(" ") as UciOption["type"] | undefined;
+  if (!name || !type || !UCI_OPTION_TYPES.includes(type)) return undefined;
+
+  const min = values.min?.join(" ");
+  const max = values.max?.join(" ");
+
+  return {
+    name,
+    type,
+    default: values.default?.join(" "),
+    min: min ? parseInt(min) : undefined,
+    max: max ? parseInt(max) : undefined,
+    vars: vars.length ? vars : undefined,
+  };
+};
+
+// These options are set by the engine itself from the analysis settings
+const MANAGED_UCI_OPTIONS = [
+  "MultiPV",
+  "UCI_LimitStrength",
+  "UCI_Elo",
+  "UCI_ShowWDL",
+];
+
+export const isEditableUciOption = (option: UciOption): boolean =>
+  option.type !== "button" && !MANAGED_UCI_OPTIONS.includes(option.name);
+
+export const isValidUciOptionValue = (
+  option: UciOption,
+  value: string
+): boolean => {
+  switch (option.type) {
+    case "check":
+      return value === "true" || value === "false";
+    case "spin": {
+      const number = Number(value);
+      return (
+        Number.isInteger(number) &&
+        (option.min === undefined || number >= option.min) &&
+        (option.max === undefined || number <= option.max)
+      );
+    }
+    case "combo":
+      return !!option.vars?.includes(value);
+    case "string":
+      return true;
+    case "button":
+      return false;
+  }
+};
+
+export const getValidUciOptionValues = (
+  options: UciOption[],
+  values: UciOptionValues
+): UciOptionValues =>
+  Object.fromEntries(
+    Object.entries(values).filter(([name, value]) => {
+      const option = options.find((option) => option.name === name);
+      return (
+        !!option &&
+        isEditableUciOption(option) &&
+        isValidUciOptionValue(option, value)
+      );
+    })
+  );
+
+export const getSetOptionCommands = (values: UciOptionValues): string[] =>
+  Object.entries(values).map(
+    ([name, value]) => `setoption name ${name} value ${value}`
+  );
@@ -1,11 +1,28 @@
 import { ceilsNumber } from "@/lib/math";
 import { LineEval, PositionEval } from "@/types/eval";
 
-export const getPositionWinPercentage = (position: PositionEval): number => {
-  return getLineWinPercentage(position.lines[0]);
+export const getPositionWinPercentage = (
+  position: PositionEval,
+  useWdl = false
+): number => {
+  return getLineWinPercentage(position.lines[0], useWdl);
 };
 
-export const getLineWinPercentage = (line: LineEval): number => {
+// Win percentages from the engine's WDL and from the cp sigmoid differ, so
+// WDL is only used when all the compared lines have it
+export const canUseWdl = (
+  lines: (LineEval | undefined)[],
+  useWdl = false
+): boolean => useWdl && lines.every((line) => !!line?.wdl);
+
+export const getLineWinPercentage = (
+  line: LineEval,
+  useWdl = false
+): number => {
+  if (useWdl && line.wdl) {
+    return getWinPercentageFromWdl(line.wdl);
+  }
+
   if (line.cp !== undefined) {
     return getWinPercentageFromCp(line.cp);
   }
@@ -17,6 +34,10 @@ export const getLineWinPercentage = (line: LineEval): number => {
   throw new Error("No cp or mate in line");
 };
 
+// The engine's own probabilities, a draw counting as half a win
+const getWinPercentageFromWdl = ([win, draw]: [number, number, number]) =>
+  (win + draw / 2) / 10;
+
 const getWinPercentageFromMate = (mate: number): number => {
   const mateInf = mate * Infinity;
   return getWinPercentageFromCp(mateInf);
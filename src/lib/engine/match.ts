@@ -0,0 +1,245 @@
+import { Chess, validateFen } from "chess.js";
+import {
+  MatchGame,
+  MatchOpening,
+  MatchPlayer,
+  MatchScore,
+} from "@/types/engine";
+import { setGameHeaders, uciMoveParams } from "../chess";
+import { getStandardDeviation } from "../math";
+import { createEngine } from "./createEngine";
+import { UciEngine } from "./uciEngine";
+
+// Balanced positions after the main line of common openings
+export const MATCH_OPENINGS: MatchOpening[] = [
+  {
+    name: "Ruy Lopez",
+    fen: "r1bqkbnr/1ppp1ppp/p1n5/1B2p3/4P3/5N2/PPPP1PPP/RNBQK2R w KQkq - 0 4",
+  },
+  {
+    name: "Italian Game",
+    fen: "r1bqk1nr/pppp1ppp/2n5/2b1p3/2B1P3/5N2/PPPP1PPP/RNBQK2R w KQkq - 4 4",
+  },
+  {
+    name: "Sicilian Najdorf",
+    fen: "rnbqkb1r/1p2pppp/p2p1n2/8/3NP3/2N5/PPP2PPP/R1BQKB1R w KQkq - 0 6",
+  },
+  {
+    name: "French Defense",
+    fen: "rnbqkb1r/ppp2ppp/4pn2/3p4/3PP3/2N5/PPP2PPP/R1BQKBNR w KQkq - 2 4",
+  },
+  {
+    name: "Caro-Kann Defense",
+    fen: "rn1qkbnr/pp2pppp/2p5/5b2/3PN3/8/PPP2PPP/R1BQKBNR w KQkq - 1 5",
+  },
+  {
+    name: "Queen's Gambit Declined",
+    fen: "rnbqk2r/ppp1bppp/4pn2/3p2B1/2PP4/2N5/PP2PPPP/R2QKBNR w KQkq - 4 5",
+  },
+  {
+    name: "King's Indian Defense",
+    fen: "rnbqk2r/ppp1ppbp/3p1np1/8/2PPP3/2N5/PP3PPP/R1BQKBNR w KQkq - 0 5",
+  },
+  {
+    name: "Slav Defense",
+    fen: "rnbqkb1r/pp2pppp/2p2n2/8/2pP4/2N2N2/PP2PPPP/R1BQKB1R w KQkq - 0 5",
+  },
+  {
+    name: "English Opening",
+    fen: "r1bqkb1r/pppp1ppp/2n2n2/4p3/2P5/2N2N2/PP1PPPPP/R1BQKB1R w KQkq - 4 4",
+  },
+  {
+    name: "Nimzo-Indian Defense",
+    fen: "rnbqk2r/pppp1ppp/4pn2/8/1bPP4/2N5/PP2PPPP/R1BQKBNR w KQkq - 2 4",
+  },
+];
+
+// One opening per line, as a FEN optionally preceded by its name and a colon
+export const parseMatchOpenings = (text: string): MatchOpening[] =>
+  text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line, i) => {
+      const separatorIndex = line.indexOf(":");
+      const name =
+        separatorIndex === -1
+          ? `Position ${i + 1}`
+          : line.slice(0, separatorIndex).trim();
+      const fen = line.slice(separatorIndex + 1).trim();
+
+      const { ok, error } = validateFen(fen);
+      if (!ok) throw new Error(`Invalid FEN for ${name} : ${error}`);
+
+      return { name, fen };
+    });
+
+export const formatMatchOpenings = (openings: MatchOpening[]): string =>
+  openings.map(({ name, fen }) => `${name}: ${fen}`).join("\n");
+
+// Games still going on after this number of plies are adjudicated as draws
+const MAX_GAME_PLIES = 300;
+
+interface RunMatchParams {
+  players: [MatchPlayer, MatchPlayer];
+  openings: MatchOpening[];
+  gamesNb: number;
+  onGame: (game: Chess, matchGame: MatchGame) => Promise<void> | void;
+  signal?: AbortSignal;
+}
+
+// Each opening is played twice in a row, with both players taking each color
+export const runMatch = async ({
+  players,
+  openings,
+  gamesNb,
+  onGame,
+  signal,
+}: RunMatchParams): Promise<void> => {
+  if (!openings.length) throw new Error("No opening to play the match from");
+
+  const engines: UciEngine[] = [];
+
+  try {
+    for (const player of players) {
+      signal?.throwIfAborted();
+      engines.push(await createEngine(player.engineName));
+    }
+
+    for (let round = 1; round <= gamesNb; round++) {
+      signal?.throwIfAborted();
+
+      const opening = openings[Math.floor((round - 1) / 2) % openings.length];
+      const whitePlayerIndex = (round - 1) % 2 === 0 ? 0 : 1;
+
+      const game = await playMatchGame({
+        engines,
+        players,
+        opening,
+        whitePlayerIndex,
+        signal,
+      });
+      game.setHeader("Event", "Chesskit Engine Match");
+      game.setHeader("Round", `${round}`);
+      game.setHeader("Opening", opening.name);
+
+      const headers = game.getHeaders();
+      await onGame(game, {
+        round,
+        opening: opening.name,
+        whitePlayerIndex,
+        result: headers.Result,
+        termination: headers.Termination,
+        pgn: game.pgn(),
+      });
+    }
+  } finally {
+    for (const engine of engines) {
+      engine.shutdown();
+    }
+  }
+};
+
+const playMatchGame = async ({
+  engines,
+  players,
+  opening,
+  whitePlayerIndex,
+  signal,
+}: {
+  engines: UciEngine[];
+  players: [MatchPlayer, MatchPlayer];
+  opening: MatchOpening;
+  whitePlayerIndex: 0 | 1;
+  signal?: AbortSignal;
+}): Promise<Chess> => {
+  const game = new Chess(opening.fen);
+
+  while (!game.isGameOver() && game.history().length < MAX_GAME_PLIES) {
+    const playerIndex =
+      game.turn() === "w" ? whitePlayerIndex : 1 - whitePlayerIndex;
+    const { elo, depth, movetime } = players[playerIndex];
+
+    const move = await engines[playerIndex].getEngineNextMove(
+      game.fen(),
+      elo,
+      { depth, movetime },
+      signal,
+      {
+        startingFen: opening.fen,
+        uciMoves: game
+          .history({ verbose: true })
+          .map((move) => move.from + move.to + (move.promotion || "")),
+      }
+    );
+    if (!move) break;
+
+    game.move(uciMoveParams(move));
+  }
+
+  const [white, black] =
+    whitePlayerIndex === 0 ? players : [players[1], players[0]];
+  setGameHeaders(game, {
+    white: { name: white.name, rating: white.elo },
+    black: { name: black.name, rating: black.elo },
+  });
+
+  if (game.getHeaders().Result === "*") {
+    game.setHeader("Result", "1/2-1/2");
+    game.setHeader(
+      "Termination",
+      game.isDrawByFiftyMoves()
+        ? "Draw by fifty-move rule"
+        : "Draw by adjudication"
+    );
+  }
+
+  return game;
+};
+
+// Points scored by the first player in a game
+const getGamePoints = ({ result, whitePlayerIndex }: MatchGame): number => {
+  if (result === "1/2-1/2") return 0.5;
+
+  const isWhiteWin = result === "1-0";
+  return isWhiteWin === (whitePlayerIndex === 0) ? 1 : 0;
+};
+
+// Elo difference expected from a score, undefined for a perfect score
+const getEloDifference = (score: number): number | undefined => {
+  if (score <= 0 || score >= 1) return undefined;
+  return -400 * Math.log10(1 / score - 1);
+};
+
+// Score of the first player against the second one, with the Elo difference
+// it implies and the margin of its 95% confidence interval
+export const getMatchScore = (games: MatchGame[]): MatchScore => {
+  const points = games.map(getGamePoints);
+  const gamesNb = points.length;
+  const wins = points.filter((point) => point === 1).length;
+  const losses = points.filter((point) => point === 0).length;
+  const draws = gamesNb - wins - losses;
+
+  if (!gamesNb) {
+    return { gamesNb, wins, draws, losses, score: 0 };
+  }
+
+  const score = points.reduce((sum, point) => sum + point, 0) / gamesNb;
+  const scoreError = (getStandardDeviation(points) / Math.sqrt(gamesNb)) * 1.96;
+
+  const upperElo = getEloDifference(score + scoreError);
+  const lowerElo = getEloDifference(score - scoreError);
+
+  return {
+    gamesNb,
+    wins,
+    draws,
+    losses,
+    score,
+    eloDifference: getEloDifference(score),
+    eloMargin:
+      upperElo !== undefined && lowerElo !== undefined && scoreError > 0
+        ? (upperElo - lowerElo) / 2
+        : undefined,
+  };
+};
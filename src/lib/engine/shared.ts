@@ -1,4 +1,8 @@
 import { EngineName } from "@/types/enums";
+import { CustomEngine, CustomEngineId, EngineId } from "@/types/engine";
+import { ENGINE_LABELS } from "@/constants";
+import { CustomUciEngine } from "./customEngine";
+import { FakeEngine } from "./fakeEngine";
 import { Stockfish11 } from "./stockfish11";
 import { Stockfish16 } from "./stockfish16";
 import { Stockfish16_1 } from "./stockfish16_1";
@@ -23,7 +27,24 @@ export const isIosDevice = () => /iPhone|iPad|iPod/i.test(navigator.userAgent);
 export const isMobileDevice = () =>
   isIosDevice() || /Android|Opera Mini/i.test(navigator.userAgent);
 
-export const isEngineSupported = (name: EngineName): boolean => {
+export const isCustomEngineId = (id: EngineId): id is CustomEngineId =>
+  id.startsWith("custom_");
+
+export const getEngineLabel = (
+  engine: EngineId,
+  customEngines: CustomEngine[] = []
+): string => {
+  if (!isCustomEngineId(engine)) return ENGINE_LABELS[engine].small;
+
+  return (
+    customEngines.find((customEngine) => customEngine.id === engine)?.name ??
+    "Custom engine"
+  );
+};
+
+export const isEngineSupported = (name: EngineId): boolean => {
+  if (isCustomEngineId(name)) return CustomUciEngine.isSupported();
+
   switch (name) {
     case EngineName.Stockfish17:
     case EngineName.Stockfish17Lite:
@@ -36,5 +57,11 @@ export const isEngineSupported = (name: EngineName): boolean => {
       return Stockfish16.isSupported();
     case EngineName.Stockfish11:
       return Stockfish11.isSupported();
+    case EngineName.Fake:
+      return FakeEngine.isSupported();
   }
 };
+
+// Engines with a classical evaluation can print its terms with the eval command
+export const isEvalTraceSupported = (name: EngineId): boolean =>
+  name === EngineName.Stockfish11 || name === EngineName.Stockfish16;
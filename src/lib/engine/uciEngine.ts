@@ -1,50 +1,111 @@
-import { EngineName } from "@/types/enums";
+import { EngineName, EvalProviderName, JobPriority } from "@/types/enums";
 import {
   EvaluateGameParams,
   EvaluatePositionWithUpdateParams,
+  EvalTrace,
   GameEval,
+  LineEval,
   PositionEval,
+  SearchLimits,
+  ThreatEval,
 } from "@/types/eval";
 import {
   getResultProperty,
   parseEvaluationResults,
+  parseSearchStats,
 } from "./helpers/parseResults";
 import { computeAccuracy } from "./helpers/accuracy";
-import { getIsStalemate, getWhoIsCheckmated } from "../chess";
-import { getLichessEval } from "../lichess";
-import { getMovesClassification } from "./helpers/moveClassification";
+import {
+  getIsStalemate,
+  getNullMoveFen,
+  getPositionsDrawStatus,
+  getUciPositionCommand,
+  getWhoIsCheckmated,
+} from "../chess";
+import {
+  getMovesClassification,
+  getPositionsToDeepen,
+} from "./helpers/moveClassification";
 import { computeEstimatedElo } from "./helpers/estimateElo";
-import { EngineWorker, WorkerJob } from "@/types/engine";
+import { parseEvalTrace } from "./helpers/evalTrace";
+import {
+  getHumanLikeProfile,
+  HUMAN_LIKE_MIN_ELO,
+  HUMAN_LIKE_MULTI_PV,
+  selectHumanLikeMove,
+} from "./helpers/humanLikeMove";
+import {
+  BenchmarkParams,
+  BenchmarkResult,
+  EngineId,
+  EngineWorker,
+  EvalProvider,
+  UciOption,
+  UciOptionValues,
+  WorkerJob,
+  WorkerJobOptions,
+} from "@/types/engine";
 import { getEngineWorker, sendCommandsToWorker } from "./worker";
+import {
+  getEvalFromProviders,
+  getEvalProviders,
+  getWdlEvalProviders,
+} from "./evalProviders";
+import { DEFAULT_EVAL_PROVIDERS_SETTINGS } from "@/constants";
+import { EngineCrashedError } from "./errors";
+import {
+  getSetOptionCommands,
+  getValidUciOptionValues,
+  parseUciOptions,
+} from "./helpers/uciOptions";
+
+const DETERMINISTIC_NODES = 1_000_000;
+const WORKER_INACTIVITY_TIMEOUT = 30_000;
+const MAX_JOB_FAILURES = 3;
+const PROGRESSIVE_FIRST_PASS_DEPTH = 10;
 
 export class UciEngine {
-  public readonly name: EngineName;
+  public readonly name: EngineId;
   private workers: EngineWorker[] = [];
   private workerQueue: WorkerJob[] = [];
+  private runningJobs = new Map<EngineWorker, WorkerJob>();
+  private isEvaluatingGame = false;
   private isReady = false;
   private enginePath: string;
   private customEngineInit?:
     | ((worker: EngineWorker) => Promise<void>)
     | undefined = undefined;
+  private getWorker: (enginePath: string) => EngineWorker;
   private multiPv = 3;
   private elo: number | undefined = undefined;
+  private options: UciOption[] = [];
+  private optionValues: UciOptionValues = {};
+  private forcedOptionValues: UciOptionValues = {};
 
   private constructor(
-    engineName: EngineName,
+    engineName: EngineId,
     enginePath: string,
-    customEngineInit: UciEngine["customEngineInit"]
+    customEngineInit: UciEngine["customEngineInit"],
+    getWorker: UciEngine["getWorker"]
   ) {
     this.name = engineName;
     this.enginePath = enginePath;
     this.customEngineInit = customEngineInit;
+    this.getWorker = getWorker;
   }
 
   public static async create(
-    engineName: EngineName,
+    engineName: EngineId,
     enginePath: string,
-    customEngineInit?: UciEngine["customEngineInit"]
+    customEngineInit?: UciEngine["customEngineInit"],
+    getWorker: UciEngine["getWorker"] = getEngineWorker
   ): Promise<UciEngine> {
-    const engine = new UciEngine(engineName, enginePath, customEngineInit);
+    const engine = new UciEngine(
+      engineName,
+      enginePath,
+      customEngineInit,
+      getWorker
+    );
 
     await engine.addNewWorker();
     engine.isReady = true;
@@ -52,33 +113,170 @@ export class UciEngine {
     return engine;
   }
 
-  private acquireWorker(): EngineWorker | undefined {
+  private enqueueJob(job: WorkerJob) {
+    const index = this.workerQueue.findIndex(
+      (queuedJob) => queuedJob.priority < job.priority
+    );
+    if (index === -1) {
+      this.workerQueue.push(job);
+    } else {
+      this.workerQueue.splice(index, 0, job);
+    }
+
+    this.processQueue();
+  }
+
+  private processQueue() {
     for (const worker of this.workers) {
       if (!worker.isReady) continue;
 
-      worker.isReady = false;
-      return worker;
+      const job =
+        this.workerQueue.find((job) => job.worker === worker) ??
+        this.workerQueue.find((job) => !job.worker);
+      if (!job) continue;
+
+      this.workerQueue.splice(this.workerQueue.indexOf(job), 1);
+      this.runJob(worker, job);
     }
 
-    return undefined;
+    this.preemptLowerPriorityJobs();
   }
 
-  private async releaseWorker(worker: EngineWorker) {
-    const nextJob = this.workerQueue.shift();
-    if (!nextJob) {
-      worker.isReady = true;
+  // Jobs waiting for a worker stop lower priority running jobs, which are put
+  // back in the queue and restarted once a worker is available again
+  private preemptLowerPriorityJobs() {
+    const boundWorkers = new Set<EngineWorker>();
+
+    // Jobs bound to a worker can only stop the job running on it
+    for (const waitingJob of this.workerQueue) {
+      if (!waitingJob.worker) continue;
+      boundWorkers.add(waitingJob.worker);
+
+      const runningJob = this.runningJobs.get(waitingJob.worker);
+      if (
+        runningJob &&
+        !runningJob.isPreempted &&
+        runningJob.priority < waitingJob.priority
+      ) {
+        runningJob.isPreempted = true;
+        waitingJob.worker.uci("stop");
+      }
+    }
+
+    let pendingPreemptionsNb = [...this.runningJobs.entries()].filter(
+      ([worker, job]) => job.isPreempted && !boundWorkers.has(worker)
+    ).length;
+
+    for (const waitingJob of this.workerQueue) {
+      if (waitingJob.worker) continue;
+
+      if (pendingPreemptionsNb > 0) {
+        pendingPreemptionsNb--;
+        continue;
+      }
+
+      const [worker, runningJob] =
+        [...this.runningJobs.entries()]
+          .filter(
+            ([worker, job]) =>
+              !job.isPreempted &&
+              !boundWorkers.has(worker) &&
+              job.priority < waitingJob.priority
+          )
+          .sort(([, a], [, b]) => a.priority - b.priority)[0] ?? [];
+      if (!worker || !runningJob) return;
+
+      runningJob.isPreempted = true;
+      worker.uci("stop");
+    }
+  }
+
+  private async runJob(worker: EngineWorker, job: WorkerJob) {
+    worker.isReady = false;
+    this.runningJobs.set(worker, job);
+
+    let res: string[];
+    try {
+      res = await sendCommandsToWorker(
+        worker,
+        job.commands,
+        job.finalMessage,
+        job.onNewMessage,
+        job.inactivityTimeout ?? WORKER_INACTIVITY_TIMEOUT
+      );
+    } catch (error) {
+      if (this.runningJobs.get(worker) === job) {
+        this.handleWorkerFailure(worker, job, error);
+      }
       return;
     }
 
-    const res = await sendCommandsToWorker(
-      worker,
-      nextJob.commands,
-      nextJob.finalMessage,
-      nextJob.onNewMessage
-    );
+    this.runningJobs.delete(worker);
+    worker.isReady = true;
+
+    if (job.signal?.aborted) {
+      job.reject(job.signal.reason);
+    } else if (job.isPreempted) {
+      job.isPreempted = false;
+      this.enqueueJob(job);
+    } else {
+      job.resolve(res);
+    }
+
+    this.processQueue();
+  }
+
+  // A crashed or stuck worker is replaced by a new one, and its job is retried
+  // until it has failed too many times
+  private handleWorkerFailure(
+    worker: EngineWorker,
+    job: WorkerJob,
+    error: unknown
+  ) {
+    console.error(error);
+
+    this.runningJobs.delete(worker);
+    this.workers = this.workers.filter((w) => w !== worker);
+    this.terminateWorker(worker);
+
+    job.failuresNb = (job.failuresNb ?? 0) + 1;
+    if (job.signal?.aborted) {
+      job.reject(job.signal.reason);
+    } else if (job.failuresNb >= MAX_JOB_FAILURES) {
+      job.reject(new EngineCrashedError(this.name, job.failuresNb));
+    } else if (job.worker) {
+      job.resolve([]);
+    } else {
+      job.isPreempted = false;
+      this.enqueueJob(job);
+    }
 
-    this.releaseWorker(worker);
-    nextJob.resolve(res);
+    this.addNewWorker().catch((error) => {
+      console.error(error);
+      if (this.workers.length) return;
+
+      this.isReady = false;
+      const jobs = this.workerQueue;
+      this.workerQueue = [];
+      for (const queuedJob of jobs) {
+        queuedJob.reject(
+          new EngineCrashedError(this.name, (queuedJob.failuresNb ?? 0) + 1)
+        );
+      }
+    });
+  }
+
+  private cancelJob(job: WorkerJob, reason: unknown) {
+    const queueIndex = this.workerQueue.indexOf(job);
+    if (queueIndex !== -1) {
+      this.workerQueue.splice(queueIndex, 1);
+      job.reject(reason);
+      return;
+    }
+
+    for (const [worker, runningJob] of this.runningJobs) {
+      if (runningJob === job) worker.uci("stop");
+    }
   }
 
   private async setMultiPv(multiPv: number) {
@@ -96,9 +294,18 @@ export class UciEngine {
     this.multiPv = multiPv;
   }
 
-  private async setElo(elo: number) {
+  private async setElo(elo: number | undefined) {
     if (elo === this.elo) return;
 
+    if (elo === undefined) {
+      await this.sendCommandsToEachWorker(
+        ["setoption name UCI_LimitStrength value false", "isready"],
+        "readyok"
+      );
+      this.elo = undefined;
+      return;
+    }
+
     if (elo < 1320 || elo > 3190) {
       throw new Error(`Invalid Elo value : ${elo}`);
     }
@@ -116,6 +323,44 @@ export class UciEngine {
     this.elo = elo;
   }
 
+  public getOptions(): UciOption[] {
+    return this.options;
+  }
+
+  public async setOptionValues(values: UciOptionValues) {
+    const optionValues = getValidUciOptionValues(this.options, values);
+
+    // Options that are no longer set go back to their default value
+    const resetValues: UciOptionValues = {};
+    for (const option of this.options) {
+      if (
+        option.name in this.optionValues &&
+        !(option.name in optionValues) &&
+        option.default !== undefined
+      ) {
+        resetValues[option.name] = option.default;
+      }
+    }
+
+    this.optionValues = optionValues;
+
+    const commands = getSetOptionCommands({
+      ...resetValues,
+      ...this.optionValues,
+      ...this.forcedOptionValues,
+    });
+    if (!commands.length) return;
+
+    await this.sendCommandsToEachWorker([...commands, "isready"], "readyok");
+  }
+
+  private getOptionCommands(): string[] {
+    return getSetOptionCommands({
+      ...this.optionValues,
+      ...this.forcedOptionValues,
+    });
+  }
+
   public getIsReady(): boolean {
     return this.isReady;
   }
@@ -129,56 +374,79 @@ export class UciEngine {
   public shutdown(): void {
     this.isReady = false;
     this.workerQueue = [];
+    this.runningJobs.clear();
 
     for (const worker of this.workers) {
       this.terminateWorker(worker);
     }
     this.workers = [];
+
+    // Custom engines loaded from a file run from an object URL
+    if (this.enginePath.startsWith("blob:")) {
+      URL.revokeObjectURL(this.enginePath);
+    }
   }
 
   private terminateWorker(worker: EngineWorker) {
-    console.log(`Terminating worker from ${this.enginePath}`);
     worker.isReady = false;
     worker.uci("quit");
     worker.terminate();
-  }
 
-  public async stopAllCurrentJobs(): Promise<void> {
-    this.workerQueue = [];
-    await this.sendCommandsToEachWorker(["stop", "isready"], "readyok");
+    const runningJob = this.runningJobs.get(worker);
+    this.runningJobs.delete(worker);
 
-    for (const worker of this.workers) {
-      this.releaseWorker(worker);
+    for (const job of this.workerQueue.filter((job) => job.worker === worker)) {
+      this.workerQueue.splice(this.workerQueue.indexOf(job), 1);
+      job.resolve([]);
+    }
+
+    if (runningJob?.worker) {
+      runningJob.resolve([]);
+    } else if (runningJob) {
+      runningJob.isPreempted = false;
+      this.enqueueJob(runningJob);
     }
   }
 
-  private async sendCommands(
+  private sendCommands(
     commands: string[],
     finalMessage: string,
-    onNewMessage?: (messages: string[]) => void
-  ): Promise<string[]> {
-    const worker = this.acquireWorker();
-
-    if (!worker) {
-      return new Promise((resolve) => {
-        this.workerQueue.push({
-          commands,
-          finalMessage,
-          onNewMessage,
-          resolve,
-        });
-      });
-    }
-
-    const res = await sendCommandsToWorker(
+    {
+      onNewMessage,
+      priority = JobPriority.Background,
+      signal,
       worker,
-      commands,
-      finalMessage,
-      onNewMessage
-    );
+      inactivityTimeout,
+    }: WorkerJobOptions = {}
+  ): Promise<string[]> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
 
-    this.releaseWorker(worker);
-    return res;
+      const job: WorkerJob = {
+        commands,
+        finalMessage,
+        onNewMessage,
+        priority,
+        signal,
+        worker,
+        inactivityTimeout,
+        resolve: (messages) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(messages);
+        },
+        reject: (reason) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(reason);
+        },
+      };
+
+      const onAbort = () => this.cancelJob(job, signal?.reason);
+      signal?.addEventListener("abort", onAbort);
+      this.enqueueJob(job);
+    });
   }
 
   private async sendCommandsToEachWorker(
@@ -187,32 +455,75 @@ export class UciEngine {
     onNewMessage?: (messages: string[]) => void
   ): Promise<void> {
     await Promise.all(
-      this.workers.map(async (worker) => {
-        await sendCommandsToWorker(
+      this.workers.map((worker) =>
+        this.sendCommands(commands, finalMessage, {
+          onNewMessage,
+          priority: JobPriority.Interactive,
           worker,
-          commands,
-          finalMessage,
-          onNewMessage
-        );
-        this.releaseWorker(worker);
-      })
+        })
+      )
     );
   }
 
   private async addNewWorker() {
-    const worker = getEngineWorker(this.enginePath);
+    const worker = this.getWorker(this.enginePath);
 
-    await sendCommandsToWorker(worker, ["uci"], "uciok");
-    await sendCommandsToWorker(
-      worker,
-      [`setoption name MultiPV value ${this.multiPv}`, "isready"],
-      "readyok"
-    );
-    await this.customEngineInit?.(worker);
-    await sendCommandsToWorker(worker, ["ucinewgame", "isready"], "readyok");
+    try {
+      const uciMessages = await sendCommandsToWorker(worker, ["uci"], "uciok");
+      this.options = parseUciOptions(uciMessages);
+      const canShowWdl = this.options.some(
+        (option) => option.name === "UCI_ShowWDL"
+      );
+      await sendCommandsToWorker(
+        worker,
+        [
+          `setoption name MultiPV value ${this.multiPv}`,
+          ...(canShowWdl ? ["setoption name UCI_ShowWDL value true"] : []),
+          "isready",
+        ],
+        "readyok",
+        undefined,
+        WORKER_INACTIVITY_TIMEOUT
+      );
+      await this.customEngineInit?.(worker);
+      const optionCommands = this.getOptionCommands();
+      if (optionCommands.length) {
+        await sendCommandsToWorker(
+          worker,
+          [...optionCommands, "isready"],
+          "readyok",
+          undefined,
+          WORKER_INACTIVITY_TIMEOUT
+        );
+      }
+      if (this.elo) {
+        await sendCommandsToWorker(
+          worker,
+          [
+            "setoption name UCI_LimitStrength value true",
+            `setoption name UCI_Elo value ${this.elo}`,
+            "isready",
+          ],
+          "readyok",
+          undefined,
+          WORKER_INACTIVITY_TIMEOUT
+        );
+      }
+      await sendCommandsToWorker(
+        worker,
+        ["ucinewgame", "isready"],
+        "readyok",
+        undefined,
+        WORKER_INACTIVITY_TIMEOUT
+      );
+    } catch (error) {
+      worker.terminate();
+      throw error;
+    }
 
+    worker.isReady = true;
     this.workers.push(worker);
-    this.releaseWorker(worker);
+    this.processQueue();
   }
 
   private async setWorkersNb(workersNb: number) {
@@ -245,171 +556,544 @@ export class UciEngine {
     fens,
     uciMoves,
     depth = 16,
+    movetime,
+    nodes,
     multiPv = this.multiPv,
+    deterministic = false,
+    progressive = false,
+    useWdl = false,
+    evalProviders = DEFAULT_EVAL_PROVIDERS_SETTINGS,
     setEvaluationProgress,
+    setPartialGameEval,
     playersRatings,
     workersNb = 1,
   }: EvaluateGameParams): Promise<GameEval> {
     this.throwErrorIfNotReady();
-    this.isReady = false;
+    if (this.isEvaluatingGame) {
+      throw new Error(`${this.name} is already evaluating a game`);
+    }
+    this.isEvaluatingGame = true;
     setEvaluationProgress?.(1);
 
+    // Deterministic mode only uses limits that don't depend on the device speed,
+    // and clears the hash before each search so that results don't depend on
+    // which positions a worker evaluated before
+    const searchLimits: SearchLimits = deterministic
+      ? { depth, nodes: nodes ?? DETERMINISTIC_NODES }
+      : { depth, movetime, nodes };
+
+    // Deterministic searches must be single threaded, whatever the user options
+    this.forcedOptionValues = deterministic ? { Threads: "1" } : {};
+
     await this.setMultiPv(multiPv);
-    await this.sendCommandsToEachWorker(["ucinewgame", "isready"], "readyok");
+    await this.sendCommandsToEachWorker(
+      [...this.getOptionCommands(), "ucinewgame", "isready"],
+      "readyok"
+    );
     this.setWorkersNb(workersNb);
 
     const positions: PositionEval[] = new Array(fens.length);
-    let completed = 0;
+    const positionsDrawStatus = getPositionsDrawStatus(fens[0], uciMoves);
+    const enabledEvalProviders = deterministic
+      ? []
+      : getEvalProviders(evalProviders).filter(
+          (provider) =>
+            workersNb < 2 || provider.name !== EvalProviderName.LichessCloud
+        );
+    const gameEvalProviders = useWdl
+      ? getWdlEvalProviders(enabledEvalProviders)
+      : enabledEvalProviders;
+
+    const getGameEval = (): GameEval => {
+      const positionsWithClassification = getMovesClassification(
+        positions,
+        uciMoves,
+        fens,
+        useWdl
+      );
+      const accuracy = computeAccuracy(positions, useWdl);
+      const estimatedElo = computeEstimatedElo(
+        positions,
+        playersRatings?.white,
+        playersRatings?.black
+      );
 
-    const updateEval = (index: number, positionEval: PositionEval) => {
-      completed++;
-      positions[index] = positionEval;
-      const progress = completed / fens.length;
-      setEvaluationProgress?.(99 - Math.exp(-4 * progress) * 99);
+      return {
+        positions: positionsWithClassification,
+        estimatedElo,
+        accuracy,
+        settings: {
+          engine: this.name,
+          date: new Date().toISOString(),
+          depth,
+          multiPv,
+          movetime: searchLimits.movetime,
+          nodes: searchLimits.nodes,
+          deterministic,
+          progressive,
+          useWdl,
+        },
+      };
     };
 
-    await Promise.all(
-      fens.map(async (fen, i) => {
-        const whoIsCheckmated = getWhoIsCheckmated(fen);
-        if (whoIsCheckmated) {
-          updateEval(i, {
-            lines: [
-              {
-                pv: [],
-                depth: 0,
-                multiPv: 1,
-                mate: whoIsCheckmated === "w" ? -1 : 1,
-              },
-            ],
-          });
-          return;
-        }
-
-        const isStalemate = getIsStalemate(fen);
-        if (isStalemate) {
-          updateEval(i, {
-            lines: [
-              {
-                pv: [],
-                depth: 0,
-                multiPv: 1,
-                cp: 0,
-              },
-            ],
-          });
-          return;
-        }
+    // Stops the remaining searches if one of the positions can't be evaluated
+    const abortController = new AbortController();
+
+    const evaluateGamePosition = async (
+      i: number,
+      limits: SearchLimits
+    ): Promise<PositionEval> => {
+      const fen = fens[i];
+
+      // Game ends get a WDL too, so that they are rated like the other
+      // positions when WDL is used
+      const whoIsCheckmated = getWhoIsCheckmated(fen);
+      if (whoIsCheckmated) {
+        return {
+          lines: [
+            {
+              pv: [],
+              depth: 0,
+              multiPv: 1,
+              mate: whoIsCheckmated === "w" ? -1 : 1,
+              wdl: whoIsCheckmated === "w" ? [0, 0, 1000] : [1000, 0, 0],
+            },
+          ],
+        };
+      }
 
-        const result = await this.evaluatePosition(fen, depth, workersNb);
-        updateEval(i, result);
-      })
-    );
+      const isStalemate = getIsStalemate(fen);
+      if (isStalemate || positionsDrawStatus[i].isClaimableDraw) {
+        return {
+          lines: [
+            {
+              pv: [],
+              depth: 0,
+              multiPv: 1,
+              cp: 0,
+              wdl: [0, 1000, 0],
+            },
+          ],
+        };
+      }
 
-    await this.setWorkersNb(1);
-    this.isReady = true;
+      const positionCommand = getUciPositionCommand(
+        fens[0],
+        uciMoves.slice(0, i)
+      );
+      return this.evaluatePosition(
+        fen,
+        deterministic
+          ? ["ucinewgame", positionCommand, getGoCommand(limits)]
+          : [positionCommand, getGoCommand(limits)],
+        limits.depth ?? depth,
+        positionsDrawStatus[i].isHistoryDependent ? [] : gameEvalProviders,
+        { signal: abortController.signal }
+      );
+    };
 
-    const positionsWithClassification = getMovesClassification(
-      positions,
-      uciMoves,
-      fens
-    );
-    const accuracy = computeAccuracy(positions);
-    const estimatedElo = computeEstimatedElo(
-      positions,
-      playersRatings?.white,
-      playersRatings?.black
-    );
+    const evaluatePlayedMove = async (i: number): Promise<LineEval> => {
+      const positionCommand = getUciPositionCommand(
+        fens[0],
+        uciMoves.slice(0, i)
+      );
+      const goCommand = `${getGoCommand(searchLimits)} searchmoves ${uciMoves[i]}`;
 
-    return {
-      positions: positionsWithClassification,
-      estimatedElo,
-      accuracy,
-      settings: {
-        engine: this.name,
-        date: new Date().toISOString(),
+      const playedMoveEval = await this.evaluatePosition(
+        fens[i],
+        deterministic
+          ? ["ucinewgame", positionCommand, goCommand]
+          : [positionCommand, goCommand],
         depth,
-        multiPv,
-      },
+        [],
+        { signal: abortController.signal }
+      );
+
+      return playedMoveEval.lines[0];
     };
+
+    const runOnPositions = async (
+      indexes: number[],
+      run: (i: number) => Promise<void>,
+      setProgress: (progress: number) => void
+    ) => {
+      let completed = 0;
+
+      await Promise.all(
+        indexes.map(async (i) => {
+          await run(i);
+          completed++;
+          setProgress(completed / indexes.length);
+        })
+      );
+    };
+
+    const setProgress = (progress: number) => {
+      setEvaluationProgress?.(99 - Math.exp(-4 * progress) * 99);
+    };
+    const allIndexes = fens.map((_, i) => i);
+
+    try {
+      if (!progressive) {
+        await runOnPositions(
+          allIndexes,
+          async (i) => {
+            positions[i] = await evaluateGamePosition(i, searchLimits);
+          },
+          (progress) => setProgress(progress * 0.8)
+        );
+      } else {
+        // A shallow first pass gives a complete game evaluation quickly, then
+        // only the moves whose classification is uncertain are searched again
+        const firstPassLimits = {
+          depth: Math.min(PROGRESSIVE_FIRST_PASS_DEPTH, depth),
+        };
+        await runOnPositions(
+          allIndexes,
+          async (i) => {
+            positions[i] = await evaluateGamePosition(i, firstPassLimits);
+          },
+          (progress) => setProgress(progress * 0.4)
+        );
+        setPartialGameEval?.(getGameEval());
+
+        const indexesToDeepen = getPositionsToDeepen(
+          positions,
+          fens,
+          useWdl
+        ).filter((i) => {
+          const lineDepth = positions[i].lines[0]?.depth ?? 0;
+          return lineDepth > 0 && lineDepth < depth;
+        });
+        await runOnPositions(
+          indexesToDeepen,
+          async (i) => {
+            positions[i] = await evaluateGamePosition(i, searchLimits);
+          },
+          (progress) => {
+            setProgress(0.4 + progress * 0.4);
+            setPartialGameEval?.(getGameEval());
+          }
+        );
+      }
+
+      // Played moves outside of the engine lines are searched on their own,
+      // so that their refutation can be shown
+      const playedMovesIndexes = allIndexes.filter((i) => {
+        const playedMove = uciMoves[i];
+        const lines = positions[i].lines;
+        return (
+          !!playedMove &&
+          !!lines[0]?.depth &&
+          !lines.some((line) => line.pv[0] === playedMove)
+        );
+      });
+      await runOnPositions(
+        playedMovesIndexes,
+        async (i) => {
+          const playedMoveLine = await evaluatePlayedMove(i);
+          positions[i] = { ...positions[i], playedMoveLine };
+        },
+        (progress) => setProgress(0.8 + progress * 0.2)
+      );
+    } catch (error) {
+      abortController.abort();
+      throw error;
+    } finally {
+      this.isEvaluatingGame = false;
+      await this.setWorkersNb(1);
+
+      if (deterministic) {
+        this.forcedOptionValues = {};
+        await this.sendCommandsToEachWorker(
+          [
+            `setoption name Threads value ${this.optionValues.Threads ?? 1}`,
+            "isready",
+          ],
+          "readyok"
+        );
+      }
+    }
+
+    return getGameEval();
+  }
+
+  // Searches the positions to a fixed depth with the given number of workers,
+  // the positions being spread over the workers like in a game analysis
+  public async benchmark({
+    fens,
+    depth,
+    workersNb,
+    signal,
+  }: BenchmarkParams): Promise<BenchmarkResult> {
+    this.throwErrorIfNotReady();
+    if (this.isEvaluatingGame) {
+      throw new Error(`${this.name} is already evaluating a game`);
+    }
+    this.isEvaluatingGame = true;
+
+    try {
+      await this.setWorkersNb(workersNb);
+      await this.sendCommandsToEachWorker(["ucinewgame", "isready"], "readyok");
+
+      const startTime = performance.now();
+      const nodesNbs = await Promise.all(
+        fens.map(async (fen) => {
+          const results = await this.sendCommands(
+            [getUciPositionCommand(fen), `go depth ${depth}`],
+            "bestmove",
+            { signal }
+          );
+          return parseSearchStats(results)?.nodes ?? 0;
+        })
+      );
+      const durationMs = performance.now() - startTime;
+      const nodesNb = nodesNbs.reduce((sum, value) => sum + value, 0);
+
+      return {
+        engineName: this.name,
+        workersNb,
+        positionsNb: fens.length,
+        nodesNb,
+        durationMs,
+        nps: Math.round((nodesNb / durationMs) * 1000),
+      };
+    } finally {
+      this.isEvaluatingGame = false;
+      await this.setWorkersNb(1);
+    }
   }
 
   private async evaluatePosition(
     fen: string,
-    depth = 16,
-    workersNb: number
+    commands: string[],
+    depth: number,
+    evalProviders: EvalProvider[],
+    jobOptions?: WorkerJobOptions
   ): Promise<PositionEval> {
-    if (workersNb < 2) {
-      const lichessEval = await getLichessEval(fen, this.multiPv);
-      if (
-        lichessEval.lines.length >= this.multiPv &&
-        lichessEval.lines[0].depth >= depth
-      ) {
-        return lichessEval;
-      }
-    }
+    const engineEvalProvider: EvalProvider = {
+      name: EvalProviderName.Engine,
+      isLocal: true,
+      getEval: async () => {
+        const results = await this.sendCommands(
+          commands,
+          "bestmove",
+          jobOptions
+        );
+        return parseEvaluationResults(results, fen);
+      },
+    };
 
-    const results = await this.sendCommands(
-      [`position fen ${fen}`, `go depth ${depth}`],
-      "bestmove"
+    // The fake engine only replays its fixture, so that its evaluations can
+    // be reproduced exactly
+    const positionEval = await getEvalFromProviders(
+      this.name === EngineName.Fake
+        ? [engineEvalProvider]
+        : [...evalProviders, engineEvalProvider],
+      { fen, engine: this.name, depth, multiPv: this.multiPv }
     );
+    if (!positionEval) {
+      throw new Error(`No evaluation found for position ${fen}`);
+    }
 
-    return parseEvaluationResults(results, fen);
+    return positionEval;
   }
 
   public async evaluatePositionWithUpdate({
     fen,
+    startingFen,
+    uciMoves = [],
+    searchMoves = [],
     depth = 16,
+    movetime,
+    nodes,
     multiPv = this.multiPv,
+    evalProviders = DEFAULT_EVAL_PROVIDERS_SETTINGS,
+    infinite = false,
     setPartialEval,
+    signal,
   }: EvaluatePositionWithUpdateParams): Promise<PositionEval> {
     this.throwErrorIfNotReady();
 
-    const lichessEvalPromise = getLichessEval(fen, multiPv);
-
-    await this.stopAllCurrentJobs();
     await this.setMultiPv(multiPv);
 
+    // Only the new messages are parsed, as an infinite search prints a lot of
+    // them, keeping the deepest line of each MultiPV index
+    let searchMessages: string[] = [];
+    let parsedMessagesNb = 0;
+    let lineMessages = new Map<string, string>();
+    let statsMessage: string | undefined = undefined;
+
     const onNewMessage = (messages: string[]) => {
       if (!setPartialEval) return;
-      const parsedResults = parseEvaluationResults(messages, fen);
-      setPartialEval(parsedResults);
+
+      // A preempted search restarts with new messages
+      if (messages !== searchMessages) {
+        searchMessages = messages;
+        parsedMessagesNb = 0;
+        lineMessages = new Map();
+        statsMessage = undefined;
+      }
+
+      for (const message of messages.slice(parsedMessagesNb)) {
+        if (!message.startsWith("info")) continue;
+
+        const messageDepth = getResultProperty(message, "depth");
+        if (!messageDepth) continue;
+        if (getResultProperty(message, "nodes")) statsMessage = message;
+
+        const multiPvIndex = getResultProperty(message, "multipv");
+        if (!multiPvIndex || !getResultProperty(message, "pv")) continue;
+
+        const previousDepth = getResultProperty(
+          lineMessages.get(multiPvIndex) ?? "",
+          "depth"
+        );
+        if (Number(messageDepth) >= Number(previousDepth ?? 0)) {
+          lineMessages.set(multiPvIndex, message);
+        }
+      }
+      parsedMessagesNb = messages.length;
+
+      const latestMessages = [
+        ...lineMessages.values(),
+        ...(statsMessage ? [statsMessage] : []),
+      ];
+      setPartialEval(
+        parseEvaluationResults(latestMessages, fen),
+        parseSearchStats(latestMessages)
+      );
     };
 
-    console.log(`Evaluating position: ${fen}`);
+    // An infinite search only ends when it is aborted, and it can go a while
+    // without any engine output, so it is not watched for inactivity. It is
+    // stopped by any other job, and restarted once that job is done.
+    const positionEval = await this.evaluatePosition(
+      fen,
+      [
+        startingFen
+          ? getUciPositionCommand(startingFen, uciMoves)
+          : getUciPositionCommand(fen),
+        [
+          infinite ? "go infinite" : getGoCommand({ depth, movetime, nodes }),
+          ...(searchMoves.length ? ["searchmoves", ...searchMoves] : []),
+        ].join(" "),
+      ],
+      depth,
+      infinite || searchMoves.length ? [] : getEvalProviders(evalProviders),
+      {
+        onNewMessage,
+        priority: infinite ? JobPriority.Idle : JobPriority.Interactive,
+        signal,
+        inactivityTimeout: infinite ? 0 : undefined,
+      }
+    );
+    setPartialEval?.(positionEval);
+
+    return positionEval;
+  }
 
-    const lichessEval = await lichessEvalPromise;
-    if (
-      lichessEval.lines.length >= multiPv &&
-      lichessEval.lines[0].depth >= depth
-    ) {
-      setPartialEval?.(lichessEval);
-      return lichessEval;
+  // Picks a move among the best lines like a human of this rating would, which
+  // goes below the minimum Elo of the engine's own strength limit
+  public async getHumanLikeMove(
+    fen: string,
+    elo: number,
+    {
+      tacticalBias,
+      startingFen,
+      uciMoves,
+      signal,
+    }: {
+      tacticalBias?: number;
+      startingFen?: string;
+      uciMoves?: string[];
+      signal?: AbortSignal;
+    } = {}
+  ): Promise<string | undefined> {
+    this.throwErrorIfNotReady();
+
+    if (elo < HUMAN_LIKE_MIN_ELO) {
+      throw new Error(`Invalid Elo value : ${elo}`);
     }
 
+    await this.setElo(undefined);
+
+    const positionEval = await this.evaluatePositionWithUpdate({
+      fen,
+      startingFen,
+      uciMoves,
+      depth: getHumanLikeProfile(elo).depth,
+      multiPv: HUMAN_LIKE_MULTI_PV,
+      evalProviders: { ...DEFAULT_EVAL_PROVIDERS_SETTINGS, providers: [] },
+      signal,
+    });
+
+    return selectHumanLikeMove(fen, positionEval.lines, elo, { tacticalBias });
+  }
+
+  // Evaluates the position as if the side to move passed its turn, to find
+  // what the opponent threatens. Positions in check have no threat.
+  public async evaluateThreat({
+    fen,
+    ...params
+  }: EvaluatePositionWithUpdateParams): Promise<ThreatEval | undefined> {
+    const nullMoveFen = getNullMoveFen(fen);
+    if (!nullMoveFen) return undefined;
+
+    const positionEval = await this.evaluatePositionWithUpdate({
+      ...params,
+      fen: nullMoveFen,
+    });
+    const line = positionEval.lines[0];
+    if (!line?.pv.length) return undefined;
+
+    return { fen: nullMoveFen, line };
+  }
+
+  // Only engines with a classical evaluation print its terms, the others
+  // return an empty trace
+  public async explainEvaluation(
+    fen: string,
+    signal?: AbortSignal
+  ): Promise<EvalTrace> {
+    this.throwErrorIfNotReady();
+
     const results = await this.sendCommands(
-      [`position fen ${fen}`, `go depth ${depth}`],
-      "bestmove",
-      onNewMessage
+      [`position fen ${fen}`, "eval", "isready"],
+      "readyok",
+      { priority: JobPriority.Interactive, signal }
     );
 
-    return parseEvaluationResults(results, fen);
+    return parseEvalTrace(results);
   }
 
+  // Without Elo the engine plays at full strength, and without search limits
+  // it searches 16 plies deep. The moves played from the starting position
+  // let the engine see repetitions and the fifty-move counter.
   public async getEngineNextMove(
     fen: string,
-    elo: number,
-    depth = 16
+    elo: number | undefined,
+    { depth, movetime, nodes }: SearchLimits = {},
+    signal?: AbortSignal,
+    {
+      startingFen,
+      uciMoves = [],
+    }: { startingFen?: string; uciMoves?: string[] } = {}
   ): Promise<string | undefined> {
     this.throwErrorIfNotReady();
 
-    await this.stopAllCurrentJobs();
     await this.setElo(elo);
-
-    console.log(`Evaluating position: ${fen}`);
+    if (!depth && !movetime && !nodes) depth = 16;
 
     const results = await this.sendCommands(
-      [`position fen ${fen}`, `go depth ${depth}`],
-      "bestmove"
+      [
+        startingFen
+          ? getUciPositionCommand(startingFen, uciMoves)
+          : getUciPositionCommand(fen),
+        getGoCommand({ depth, movetime, nodes }),
+      ],
+      "bestmove",
+      { priority: JobPriority.Interactive, signal }
     );
 
     const moveResult = results.find((result) => result.startsWith("bestmove"));
@@ -421,3 +1105,13 @@ export class UciEngine {
     return move === "(none)" ? undefined : move;
   }
 }
+
+const getGoCommand = ({ depth, movetime, nodes }: SearchLimits): string => {
+  const limits = [
+    depth ? `depth ${depth}` : "",
+    movetime ? `movetime ${movetime}` : "",
+    nodes ? `nodes ${nodes}` : "",
+  ].filter(Boolean);
+
+  return `go ${limits.join(" ")}`;
+};
@@ -1,7 +1,28 @@
 import { EngineWorker } from "@/types/engine";
 import { isIosDevice, isMobileDevice } from "./shared";
+import { EngineWorkerError } from "./errors";
+
+// Set when the engines are shared between tabs, this module must not depend on
+// the broker so that the engine library can run outside of a browser
+let getSharedEngineWorker: ((enginePath: string) => EngineWorker) | undefined =
+  undefined;
+
+export const setSharedEngineWorkerFactory = (
+  factory: ((enginePath: string) => EngineWorker) | undefined
+) => {
+  getSharedEngineWorker = factory;
+};
 
 export const getEngineWorker = (enginePath: string): EngineWorker => {
+  // Custom engines loaded from a file only exist in the tab that loaded them
+  if (getSharedEngineWorker && !enginePath.startsWith("blob:")) {
+    return getSharedEngineWorker(enginePath);
+  }
+
+  return getLocalEngineWorker(enginePath);
+};
+
+export const getLocalEngineWorker = (enginePath: string): EngineWorker => {
   console.log(`Creating worker from ${enginePath}`);
 
   const worker = new window.Worker(enginePath);
@@ -10,6 +31,7 @@ export const getEngineWorker = (enginePath: string): EngineWorker => {
     isReady: false,
     uci: (command: string) => worker.postMessage(command),
     listen: () => null,
+    onError: () => null,
     terminate: () => worker.terminate(),
   };
 
@@ -17,6 +39,11 @@ export const getEngineWorker = (enginePath: string): EngineWorker => {
     engineWorker.listen(event.data);
   };
 
+  worker.onerror = (event) => {
+    event.preventDefault();
+    engineWorker.onError(event.message || "Engine worker crashed");
+  };
+
   return engineWorker;
 };
 
@@ -24,20 +51,45 @@ export const sendCommandsToWorker = (
   worker: EngineWorker,
   commands: string[],
   finalMessage: string,
-  onNewMessage?: (messages: string[]) => void
+  onNewMessage?: (messages: string[]) => void,
+  inactivityTimeout?: number
 ): Promise<string[]> => {
-  return new Promise((resolve) => {
+  return new Promise((resolve, reject) => {
     const messages: string[] = [];
+    let timeout: ReturnType<typeof setTimeout> | undefined = undefined;
+
+    const resetTimeout = () => {
+      clearTimeout(timeout);
+      if (!inactivityTimeout) return;
+
+      timeout = setTimeout(() => {
+        reject(
+          new EngineWorkerError(
+            `No message received from engine worker for ${inactivityTimeout}ms`,
+            "timeout"
+          )
+        );
+      }, inactivityTimeout);
+    };
 
     worker.listen = (data) => {
       messages.push(data);
       onNewMessage?.(messages);
+      resetTimeout();
 
       if (data.startsWith(finalMessage)) {
+        clearTimeout(timeout);
         resolve(messages);
       }
     };
 
+    worker.onError = (error) => {
+      clearTimeout(timeout);
+      reject(new EngineWorkerError(error, "crash"));
+    };
+
+    resetTimeout();
+
     for (const command of commands) {
       worker.uci(command);
     }
@@ -0,0 +1,123 @@
+import { EngineId } from "@/types/engine";
+import { CachedEval, PositionEval } from "@/types/eval";
+import { IDBPDatabase } from "idb";
+import { GameDatabaseSchema, openGameDatabase } from "./database";
+
+const MAX_CACHED_EVALS = 50_000;
+const EVICTION_BATCH_SIZE = 1_000;
+
+const isEvalCacheAvailable = () => typeof indexedDB !== "undefined";
+
+// Move counters are left out so that transpositions share the same entry
+const getCachedEvalId = (fen: string, engine: EngineId): string =>
+  `${engine} ${fen.split(" ").slice(0, 4).join(" ")}`;
+
+export const getCachedEval = async (
+  fen: string,
+  engine: EngineId,
+  depth: number,
+  multiPv: number
+): Promise<PositionEval | undefined> => {
+  if (!isEvalCacheAvailable()) return undefined;
+
+  try {
+    const db = await openGameDatabase();
+    const cachedEval = await db.get("evals", getCachedEvalId(fen, engine));
+
+    if (
+      !cachedEval?.lines.length ||
+      cachedEval.multiPv < multiPv ||
+      cachedEval.lines[0].depth < depth
+    ) {
+      return undefined;
+    }
+
+    await db.put("evals", { ...cachedEval, lastUsedAt: Date.now() });
+
+    return {
+      bestMove: cachedEval.bestMove,
+      lines: cachedEval.lines.slice(0, multiPv),
+    };
+  } catch (error) {
+    console.error(error);
+    return undefined;
+  }
+};
+
+export const setCachedEval = async (
+  fen: string,
+  engine: EngineId,
+  multiPv: number,
+  positionEval: PositionEval
+): Promise<void> => {
+  if (!isEvalCacheAvailable() || !positionEval.lines.length) return;
+
+  try {
+    const db = await openGameDatabase();
+    const id = getCachedEvalId(fen, engine);
+
+    const tx = db.transaction("evals", "readwrite");
+    const cachedEval = await tx.store.get(id);
+
+    // An eval only replaces one that is not deeper and has no more lines
+    if (
+      cachedEval?.lines.length &&
+      (cachedEval.multiPv > multiPv ||
+        cachedEval.lines[0].depth > positionEval.lines[0].depth)
+    ) {
+      await tx.done;
+      return;
+    }
+
+    const newCachedEval: CachedEval = {
+      id,
+      fen,
+      engine,
+      multiPv,
+      bestMove: positionEval.bestMove,
+      lines: positionEval.lines,
+      lastUsedAt: Date.now(),
+    };
+    await tx.store.put(newCachedEval);
+    await tx.done;
+
+    await evictLeastRecentlyUsedEvals(db);
+  } catch (error) {
+    console.error(error);
+  }
+};
+
+export const getCachedEvalsCount = async (): Promise<number> => {
+  if (!isEvalCacheAvailable()) return 0;
+
+  const db = await openGameDatabase();
+  return db.count("evals");
+};
+
+export const clearEvalCache = async (): Promise<void> => {
+  if (!isEvalCacheAvailable()) return;
+
+  const db = await openGameDatabase();
+  await db.clear("evals");
+};
+
+const evictLeastRecentlyUsedEvals = async (
+  db: IDBPDatabase<GameDatabaseSchema>
+) => {
+  const cachedEvalsCount = await db.count("evals");
+  if (cachedEvalsCount <= MAX_CACHED_EVALS) return;
+
+  let evalsToDeleteCount =
+    cachedEvalsCount - MAX_CACHED_EVALS + EVICTION_BATCH_SIZE;
+
+  const tx = db.transaction("evals", "readwrite");
+  let cursor = await tx.store.index("lastUsedAt").openCursor();
+
+  while (cursor && evalsToDeleteCount > 0) {
+    await cursor.delete();
+    evalsToDeleteCount--;
+    cursor = await cursor.continue();
+  }
+
+  await tx.done;
+};
@@ -16,3 +16,6 @@ export const isInViewport = (element: HTMLElement) => {
 
 export const sleep = (ms: number) =>
   new Promise((resolve) => setTimeout(resolve, ms));
+
+export const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === "AbortError";
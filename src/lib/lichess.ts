@@ -10,12 +10,16 @@ import { logErrorToSentry } from "./sentry";
 import { formatUciPv } from "./chess";
 import { LoadedGame } from "@/types/game";
 
+const LICHESS_CLOUD_EVAL_URL = "https://lichess.org/api/cloud-eval";
+
 export const getLichessEval = async (
   fen: string,
-  multiPv = 1
+  multiPv = 1,
+  endpoint = LICHESS_CLOUD_EVAL_URL,
+  timeout = 200
 ): Promise<PositionEval> => {
   try {
-    const data = await fetchLichessEval(fen, multiPv);
+    const data = await fetchLichessEval(fen, multiPv, endpoint, timeout);
 
     if ("error" in data) {
       if (data.error === LichessError.NotFound) {
@@ -80,13 +84,19 @@ export const getLichessUserRecentGames = async (
 
 const fetchLichessEval = async (
   fen: string,
-  multiPv: number
+  multiPv: number,
+  endpoint: string,
+  timeout: number
 ): Promise<LichessResponse<LichessEvalBody>> => {
   try {
-    const res = await fetch(
-      `https://lichess.org/api/cloud-eval?fen=${fen}&multiPv=${multiPv}`,
-      { method: "GET", signal: AbortSignal.timeout(200) }
-    );
+    const url = new URL(endpoint);
+    url.searchParams.set("fen", fen);
+    url.searchParams.set("multiPv", `${multiPv}`);
+
+    const res = await fetch(url, {
+      method: "GET",
+      signal: AbortSignal.timeout(timeout),
+    });
 
     return res.json();
   } catch (error) {
@@ -0,0 +1,44 @@
+import { Color } from "@/types/enums";
+import { UnfinishedGame } from "@/types/game";
+import { openGameDatabase } from "./database";
+import { getTimeControl, getTimeControlLabel } from "./clock";
+
+export const isUnfinishedGamesStorageAvailable = () =>
+  typeof indexedDB !== "undefined";
+
+// Most recently played first
+export const getUnfinishedGames = async (): Promise<UnfinishedGame[]> => {
+  const db = await openGameDatabase();
+  const unfinishedGames = await db.getAll("unfinishedGames");
+
+  return unfinishedGames.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const saveUnfinishedGame = async (
+  unfinishedGame: UnfinishedGame
+): Promise<void> => {
+  const db = await openGameDatabase();
+  await db.put("unfinishedGames", unfinishedGame);
+};
+
+export const removeUnfinishedGame = async (id: string): Promise<void> => {
+  const db = await openGameDatabase();
+  await db.delete("unfinishedGames", id);
+};
+
+// Example: You play White, 12 moves, 3+2, 10/19/2026
+export const getUnfinishedGameDescription = ({
+  playerColor,
+  movesNb,
+  timeControlId,
+  updatedAt,
+}: UnfinishedGame): string => {
+  const timeControl = getTimeControl(timeControlId);
+
+  return [
+    `You play ${playerColor === Color.White ? "White" : "Black"}`,
+    `${Math.ceil(movesNb / 2)} moves`,
+    timeControl ? getTimeControlLabel(timeControl) : "no clock",
+    new Date(updatedAt).toLocaleDateString(),
+  ].join(", ");
+};
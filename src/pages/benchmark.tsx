@@ -0,0 +1,171 @@
+import {
+  Alert,
+  Button,
+  Checkbox,
+  FormControlLabel,
+  FormGroup,
+  Grid2 as Grid,
+  LinearProgress,
+  Typography,
+} from "@mui/material";
+import { useState } from "react";
+import { PageTitle } from "@/components/pageTitle";
+import Slider from "@/components/slider";
+import BenchmarkResults from "@/sections/benchmark/benchmarkResults";
+import { runBenchmark } from "@/lib/engine/benchmark";
+import { getEngineLabel, isEngineSupported } from "@/lib/engine/shared";
+import { isAbortError } from "@/lib/helpers";
+import { useCustomEngines } from "@/hooks/useCustomEngines";
+import { BenchmarkResult, EngineId } from "@/types/engine";
+import { EngineName } from "@/types/enums";
+import { DEFAULT_ENGINE } from "@/constants";
+
+export default function Benchmark() {
+  const { customEngines } = useCustomEngines();
+  const [engineNames, setEngineNames] = useState<EngineId[]>([DEFAULT_ENGINE]);
+  const [maxWorkersNb, setMaxWorkersNb] = useState(8);
+  const [depth, setDepth] = useState(14);
+  const [results, setResults] = useState<BenchmarkResult[]>([]);
+  const [runsNb, setRunsNb] = useState(0);
+  const [error, setError] = useState("");
+  const [abortController, setAbortController] =
+    useState<AbortController | null>(null);
+
+  const availableEngineNames: EngineId[] = [
+    ...Object.values(EngineName),
+    ...customEngines.map((customEngine) => customEngine.id),
+  ].filter(isEngineSupported);
+
+  const workersNbs = new Array(maxWorkersNb).fill(0).map((_, i) => i + 1);
+  const totalRunsNb = engineNames.length * workersNbs.length;
+  const isRunning = !!abortController;
+
+  const toggleEngine = (engineName: EngineId, checked: boolean) => {
+    setEngineNames((prev) =>
+      checked
+        ? [...prev, engineName]
+        : prev.filter((name) => name !== engineName)
+    );
+  };
+
+  const handleRun = async () => {
+    const newAbortController = new AbortController();
+    setAbortController(newAbortController);
+    setResults([]);
+    setRunsNb(0);
+    setError("");
+
+    try {
+      await runBenchmark({
+        engineNames,
+        workersNbs,
+        depth,
+        signal: newAbortController.signal,
+        onResult: (result) => {
+          setResults((prev) => [...prev, result]);
+          setRunsNb((prev) => prev + 1);
+        },
+      });
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error(error);
+        setError(error instanceof Error ? error.message : "Unknown error");
+      }
+    } finally {
+      setAbortController(null);
+      setRunsNb(0);
+    }
+  };
+
+  const handleStop = () => {
+    abortController?.abort();
+  };
+
+  return (
+    <Grid
+      container
+      justifyContent="center"
+      alignItems="center"
+      gap={4}
+      marginTop={6}
+      marginX="auto"
+      maxWidth="800px"
+    >
+      <PageTitle title="Chesskit Engine Benchmark" />
+
+      <Typography variant="body2" textAlign="center">
+        Each engine searches {depth} plies deep in a fixed set of positions,
+        with an increasing number of threads. The fastest number of threads can
+        then be used for your analyses.
+      </Typography>
+
+      <Grid container justifyContent="center" size={12}>
+        <FormGroup row sx={{ justifyContent: "center" }}>
+          {availableEngineNames.map((engineName) => (
+            <FormControlLabel
+              key={engineName}
+              control={
+                <Checkbox
+                  checked={engineNames.includes(engineName)}
+                  disabled={isRunning}
+                  onChange={(_, checked) => toggleEngine(engineName, checked)}
+                />
+              }
+              label={getEngineLabel(engineName, customEngines)}
+            />
+          ))}
+        </FormGroup>
+      </Grid>
+
+      <Slider
+        label="Maximum number of threads"
+        value={maxWorkersNb}
+        setValue={setMaxWorkersNb}
+        min={1}
+        max={12}
+        marksFilter={1}
+      />
+
+      <Slider
+        label="Depth"
+        value={depth}
+        setValue={setDepth}
+        min={10}
+        max={20}
+        marksFilter={2}
+      />
+
+      <Grid container justifyContent="center" size={12}>
+        {isRunning ? (
+          <Button variant="outlined" onClick={handleStop}>
+            Stop
+          </Button>
+        ) : (
+          <Button
+            variant="contained"
+            onClick={handleRun}
+            disabled={!engineNames.length}
+          >
+            Run benchmark
+          </Button>
+        )}
+      </Grid>
+
+      {isRunning && (
+        <LinearProgress
+          variant="determinate"
+          value={(runsNb / totalRunsNb) * 100}
+          sx={{ width: "100%" }}
+        />
+      )}
+
+      {error && (
+        <Alert severity="error" sx={{ width: "100%" }}>
+          {error}
+        </Alert>
+      )}
+
+      <BenchmarkResults results={results} />
+    </Grid>
+  );
+}
@@ -0,0 +1,192 @@
+import {
+  Alert,
+  Button,
+  Grid2 as Grid,
+  LinearProgress,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { useState } from "react";
+import { PageTitle } from "@/components/pageTitle";
+import Slider from "@/components/slider";
+import MatchPlayerSettingsForm, {
+  MatchPlayerSettings,
+} from "@/sections/match/matchPlayerSettings";
+import MatchResults from "@/sections/match/matchResults";
+import {
+  formatMatchOpenings,
+  MATCH_OPENINGS,
+  parseMatchOpenings,
+  runMatch,
+} from "@/lib/engine/match";
+import { getEngineLabel } from "@/lib/engine/shared";
+import { isAbortError } from "@/lib/helpers";
+import { useCustomEngines } from "@/hooks/useCustomEngines";
+import { useGameDatabase } from "@/hooks/useGameDatabase";
+import { MatchGame, MatchPlayer } from "@/types/engine";
+import { DEFAULT_ENGINE } from "@/constants";
+
+export default function Match() {
+  const { customEngines } = useCustomEngines();
+  const { addGame } = useGameDatabase();
+  const [players, setPlayers] = useState<
+    [MatchPlayerSettings, MatchPlayerSettings]
+  >([
+    { engineName: DEFAULT_ENGINE, elo: 1500, depth: 12 },
+    { engineName: DEFAULT_ENGINE, depth: 4 },
+  ]);
+  const [gamesNb, setGamesNb] = useState(10);
+  const [openings, setOpenings] = useState(formatMatchOpenings(MATCH_OPENINGS));
+  const [games, setGames] = useState<MatchGame[]>([]);
+  const [playerNames, setPlayerNames] = useState<[string, string]>(["", ""]);
+  const [error, setError] = useState("");
+  const [abortController, setAbortController] =
+    useState<AbortController | null>(null);
+
+  const isRunning = !!abortController;
+
+  const setPlayer = (index: 0 | 1) => (player: MatchPlayerSettings) => {
+    setPlayers((prev) => (index === 0 ? [player, prev[1]] : [prev[0], player]));
+  };
+
+  const getPlayerName = (player: MatchPlayerSettings): string => {
+    const label = getEngineLabel(player.engineName, customEngines);
+    const limit = player.movetime
+      ? `${player.movetime / 1000}s`
+      : `depth ${player.depth}`;
+
+    return player.elo
+      ? `${label} ${player.elo} (${limit})`
+      : `${label} (${limit})`;
+  };
+
+  const handleRun = async () => {
+    setError("");
+
+    let matchOpenings;
+    try {
+      matchOpenings = parseMatchOpenings(openings);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Invalid openings");
+      return;
+    }
+
+    const matchPlayers = players.map((player) => ({
+      ...player,
+      name: getPlayerName(player),
+    })) as [MatchPlayer, MatchPlayer];
+
+    const newAbortController = new AbortController();
+    setAbortController(newAbortController);
+    setGames([]);
+    setPlayerNames([matchPlayers[0].name, matchPlayers[1].name]);
+
+    try {
+      await runMatch({
+        players: matchPlayers,
+        openings: matchOpenings,
+        gamesNb,
+        signal: newAbortController.signal,
+        onGame: async (game, matchGame) => {
+          const gameId = await addGame(game);
+          setGames((prev) => [...prev, { ...matchGame, gameId }]);
+        },
+      });
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error(error);
+        setError(error instanceof Error ? error.message : "Unknown error");
+      }
+    } finally {
+      setAbortController(null);
+    }
+  };
+
+  const handleStop = () => {
+    abortController?.abort();
+  };
+
+  return (
+    <Grid
+      container
+      justifyContent="center"
+      alignItems="center"
+      gap={4}
+      marginTop={6}
+      marginX="auto"
+      maxWidth="1000px"
+    >
+      <PageTitle title="Chesskit Engine Match" />
+
+      <Typography variant="body2" textAlign="center">
+        Two engine configurations play each opening twice, once with each color.
+        The games are saved in your database, and the score gives an estimate of
+        the Elo difference between the two players.
+      </Typography>
+
+      <Grid container justifyContent="center" size={12} rowGap={4}>
+        <MatchPlayerSettingsForm
+          title="Player 1"
+          player={players[0]}
+          setPlayer={setPlayer(0)}
+          disabled={isRunning}
+        />
+        <MatchPlayerSettingsForm
+          title="Player 2"
+          player={players[1]}
+          setPlayer={setPlayer(1)}
+          disabled={isRunning}
+        />
+      </Grid>
+
+      <Slider
+        label="Number of games"
+        value={gamesNb}
+        setValue={setGamesNb}
+        min={2}
+        max={100}
+        step={2}
+      />
+
+      <TextField
+        label="Opening positions, one FEN per line"
+        multiline
+        minRows={4}
+        maxRows={10}
+        fullWidth
+        disabled={isRunning}
+        value={openings}
+        onChange={(e) => setOpenings(e.target.value)}
+        slotProps={{ htmlInput: { style: { fontSize: "0.8rem" } } }}
+      />
+
+      <Grid container justifyContent="center" size={12}>
+        {isRunning ? (
+          <Button variant="outlined" onClick={handleStop}>
+            Stop
+          </Button>
+        ) : (
+          <Button variant="contained" onClick={handleRun}>
+            Start match
+          </Button>
+        )}
+      </Grid>
+
+      {isRunning && (
+        <LinearProgress
+          variant="determinate"
+          value={(games.length / gamesNb) * 100}
+          sx={{ width: "100%" }}
+        />
+      )}
+
+      {error && (
+        <Alert severity="error" sx={{ width: "100%" }}>
+          {error}
+        </Alert>
+      )}
+
+      <MatchResults games={games} playerNames={playerNames} />
+    </Grid>
+  );
+}
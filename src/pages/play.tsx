@@ -2,6 +2,7 @@ import { PageTitle } from "@/components/pageTitle";
 import Board from "@/sections/play/board";
 import GameInProgress from "@/sections/play/gameInProgress";
 import GameRecap from "@/sections/play/gameRecap";
+import UnfinishedGames from "@/sections/play/unfinishedGames";
 import GameSettingsButton from "@/sections/play/gameSettings/gameSettingsButton";
 import { isGameInProgressAtom } from "@/sections/play/states";
 import { Grid2 as Grid } from "@mui/material";
@@ -43,6 +44,7 @@ export default function Play() {
         <GameInProgress />
         {!isGameInProgress && <GameSettingsButton />}
         <GameRecap />
+        <UnfinishedGames />
       </Grid>
     </Grid>
   );
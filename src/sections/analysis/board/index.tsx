@@ -6,6 +6,8 @@ import {
   gameAtom,
   showBestMoveArrowAtom,
   showPlayerMoveIconAtom,
+  showWdlAtom,
+  threatAtom,
 } from "../states";
 import { useMemo } from "react";
 import { useScreenSize } from "@/hooks/useScreenSize";
@@ -17,6 +19,8 @@ export default function BoardContainer() {
   const screenSize = useScreenSize();
   const boardOrientation = useAtomValue(boardOrientationAtom);
   const showBestMoveArrow = useAtomValue(showBestMoveArrowAtom);
+  const showWdl = useAtomValue(showWdlAtom);
+  const threat = useAtomValue(threatAtom);
   const { white, black } = usePlayersData(gameAtom);
 
   const boardSize = useMemo(() => {
@@ -42,8 +46,10 @@ export default function BoardContainer() {
       boardOrientation={boardOrientation ? Color.White : Color.Black}
       currentPositionAtom={currentPositionAtom}
       showBestMoveArrow={showBestMoveArrow}
+      threatMove={threat?.line.pv[0]}
       showPlayerMoveIconAtom={showPlayerMoveIconAtom}
       showEvaluationBar={true}
+      showWdl={showWdl}
     />
   );
 }
@@ -1,8 +1,14 @@
 import {
+  analysisPausedFenAtom,
   boardAtom,
   currentPositionAtom,
   engineDepthAtom,
+  engineInfiniteAtom,
+  engineMoveTimeAtom,
+  evalProvidersAtom,
   engineMultiPvAtom,
+  engineNodesAtom,
+  engineUseWdlAtom,
   gameAtom,
   gameEvalAtom,
   savedEvalsAtom,
@@ -10,9 +16,10 @@ import {
 import { CurrentPosition, PositionEval } from "@/types/eval";
 import { useAtom, useAtomValue } from "jotai";
 import { useEffect } from "react";
-import { getEvaluateGameParams } from "@/lib/chess";
+import { getEvaluateGameParams, getPositionsDrawStatus } from "@/lib/chess";
 import { getMovesClassification } from "@/lib/engine/helpers/moveClassification";
 import { openings } from "@/data/openings";
+import { isAbortError } from "@/lib/helpers";
 import { UciEngine } from "@/lib/engine/uciEngine";
 
 export const useCurrentPosition = (engine: UciEngine | null) => {
@@ -22,6 +29,12 @@ export const useCurrentPosition = (engine: UciEngine | null) => {
   const board = useAtomValue(boardAtom);
   const depth = useAtomValue(engineDepthAtom);
   const multiPv = useAtomValue(engineMultiPvAtom);
+  const moveTime = useAtomValue(engineMoveTimeAtom);
+  const nodes = useAtomValue(engineNodesAtom);
+  const evalProviders = useAtomValue(evalProvidersAtom);
+  const isInfinite = useAtomValue(engineInfiniteAtom);
+  const useWdl = useAtomValue(engineUseWdlAtom);
+  const pausedFen = useAtomValue(analysisPausedFenAtom);
   const [savedEvals, setSavedEvals] = useAtom(savedEvalsAtom);
 
   useEffect(() => {
@@ -70,24 +83,76 @@ export const useCurrentPosition = (engine: UciEngine | null) => {
       }
     }
 
-    setCurrentPosition(position);
+    const fen = board.fen();
+    const startingFen = boardHistory[0]?.before ?? fen;
+    const boardUciMoves = boardHistory.map(
+      (move) => move.from + move.to + (move.promotion ?? "")
+    );
+    const canEvaluate =
+      engine?.getIsReady() && !board.isCheckmate() && !board.isStalemate();
 
+    // Infinite analysis keeps the lines it reached when paused
+    const pausedEval = savedEvals[fen];
     if (
-      !position.eval &&
-      engine?.getIsReady() &&
-      engine.name &&
-      !board.isCheckmate() &&
-      !board.isStalemate()
+      isInfinite &&
+      pausedFen === fen &&
+      pausedEval &&
+      pausedEval.engine === engine?.name &&
+      (pausedEval.lines[0]?.depth ?? 0) >= (position.eval?.lines[0]?.depth ?? 0)
     ) {
+      position.eval = {
+        ...position.eval,
+        ...pausedEval,
+        lines: pausedEval.lines.slice(0, multiPv),
+      };
+    }
+
+    setCurrentPosition(position);
+
+    const abortController = new AbortController();
+
+    if (isInfinite && canEvaluate && engine && pausedFen !== fen) {
+      engine
+        .evaluatePositionWithUpdate({
+          fen,
+          startingFen,
+          uciMoves: boardUciMoves,
+          multiPv,
+          infinite: true,
+          setPartialEval: (positionEval, searchStats) => {
+            setCurrentPosition({
+              ...position,
+              eval: {
+                ...positionEval,
+                moveClassification: position.eval?.moveClassification,
+                opening: position.eval?.opening,
+              },
+              searchStats,
+            });
+          },
+          signal: abortController.signal,
+        })
+        .catch((error) => {
+          if (!isAbortError(error)) throw error;
+        });
+    } else if (!isInfinite && !position.eval && canEvaluate && engine) {
       const getFenEngineEval = async (
         fen: string,
+        uciMoves: string[],
         setPartialEval?: (positionEval: PositionEval) => void
       ) => {
         if (!engine.getIsReady()) {
           throw new Error("Engine not ready");
         }
+        // Stored evals ignore repetitions and the fifty-move counter
+        const isHistoryDependent = getPositionsDrawStatus(
+          startingFen,
+          uciMoves
+        ).at(-1)?.isHistoryDependent;
+
         const savedEval = savedEvals[fen];
         if (
+          !isHistoryDependent &&
           savedEval &&
           savedEval.engine === engine.name &&
           (savedEval.lines?.length ?? 0) >= multiPv &&
@@ -103,9 +168,17 @@ export const useCurrentPosition = (engine: UciEngine | null) => {
 
         const rawPositionEval = await engine.evaluatePositionWithUpdate({
           fen,
+          startingFen,
+          uciMoves,
           depth,
+          movetime: moveTime || undefined,
+          nodes: nodes || undefined,
           multiPv,
+          evalProviders: isHistoryDependent
+            ? { ...evalProviders, providers: [] }
+            : evalProviders,
           setPartialEval,
+          signal: abortController.signal,
         });
 
         setSavedEvals((prev) => ({
@@ -122,6 +195,7 @@ export const useCurrentPosition = (engine: UciEngine | null) => {
         };
         const rawPositionEval = await getFenEngineEval(
           board.fen(),
+          boardUciMoves,
           setPartialEval
         );
 
@@ -131,7 +205,10 @@ export const useCurrentPosition = (engine: UciEngine | null) => {
         const fens = params.fens.slice(board.turn() === "w" ? -3 : -4);
         const uciMoves = params.uciMoves.slice(board.turn() === "w" ? -2 : -3);
 
-        const lastRawEval = await getFenEngineEval(fens.slice(-2)[0]);
+        const lastRawEval = await getFenEngineEval(
+          fens.slice(-2)[0],
+          boardUciMoves.slice(0, -1)
+        );
         const rawPositions: PositionEval[] = fens.map((_, idx) => {
           if (idx === fens.length - 2) return lastRawEval;
           if (idx === fens.length - 1) return rawPositionEval;
@@ -150,7 +227,8 @@ export const useCurrentPosition = (engine: UciEngine | null) => {
         const positionsWithMoveClassification = getMovesClassification(
           rawPositions,
           uciMoves,
-          fens
+          fens,
+          useWdl
         );
 
         setCurrentPosition({
@@ -160,16 +238,29 @@ export const useCurrentPosition = (engine: UciEngine | null) => {
         });
       };
 
-      getPositionEval();
+      getPositionEval().catch((error) => {
+        if (!isAbortError(error)) throw error;
+      });
     }
 
     return () => {
-      if (engine?.getIsReady()) {
-        engine?.stopAllCurrentJobs();
-      }
+      abortController.abort();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [gameEval, board, game, engine, depth, multiPv]);
+  }, [
+    gameEval,
+    board,
+    game,
+    engine,
+    depth,
+    multiPv,
+    moveTime,
+    nodes,
+    evalProviders,
+    isInfinite,
+    pausedFen,
+    useWdl,
+  ]);
 
   return currentPosition;
 };
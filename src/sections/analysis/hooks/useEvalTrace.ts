@@ -0,0 +1,51 @@
+import { boardAtom, evalTraceAtom, showEvalTraceAtom } from "../states";
+import { useAtomValue, useSetAtom } from "jotai";
+import { useEffect } from "react";
+import { isAbortError } from "@/lib/helpers";
+import { isEvalTraceSupported } from "@/lib/engine/shared";
+import { UciEngine } from "@/lib/engine/uciEngine";
+
+export const useEvalTrace = (engine: UciEngine | null) => {
+  const board = useAtomValue(boardAtom);
+  const showEvalTrace = useAtomValue(showEvalTraceAtom);
+  const setEvalTrace = useSetAtom(evalTraceAtom);
+
+  useEffect(() => {
+    setEvalTrace({});
+
+    if (
+      !showEvalTrace ||
+      !engine?.getIsReady() ||
+      !isEvalTraceSupported(engine.name)
+    ) {
+      return;
+    }
+
+    const abortController = new AbortController();
+    const fen = board.fen();
+    const previousFen = board.history({ verbose: true }).at(-1)?.before;
+
+    const explainPositions = async () => {
+      const trace = await engine.explainEvaluation(fen, abortController.signal);
+      const previousTrace = previousFen
+        ? await engine.explainEvaluation(previousFen, abortController.signal)
+        : undefined;
+
+      setEvalTrace({
+        current: { fen, trace },
+        previous:
+          previousFen && previousTrace
+            ? { fen: previousFen, trace: previousTrace }
+            : undefined,
+      });
+    };
+
+    explainPositions().catch((error) => {
+      if (!isAbortError(error)) throw error;
+    });
+
+    return () => {
+      abortController.abort();
+    };
+  }, [board, engine, showEvalTrace, setEvalTrace]);
+};
@@ -0,0 +1,122 @@
+import {
+  boardAtom,
+  engineDepthAtom,
+  engineMultiPvAtom,
+  engineThreatModeAtom,
+  evalProvidersAtom,
+  gameAtom,
+  gameEvalAtom,
+  ignoredThreatsAtom,
+  threatAtom,
+} from "../states";
+import { useAtomValue, useSetAtom } from "jotai";
+import { useEffect } from "react";
+import {
+  getEvaluateGameParams,
+  getNullMoveFen,
+  moveLineUciToSan,
+} from "@/lib/chess";
+import { isThreatIgnored, canIgnoreThreat } from "@/lib/engine/helpers/threats";
+import { isAbortError } from "@/lib/helpers";
+import { UciEngine } from "@/lib/engine/uciEngine";
+
+// Threats of the reviewed game are searched less deeply, as there can be many
+const IGNORED_THREATS_MAX_DEPTH = 14;
+
+export const useThreats = (engine: UciEngine | null) => {
+  const board = useAtomValue(boardAtom);
+  const game = useAtomValue(gameAtom);
+  const gameEval = useAtomValue(gameEvalAtom);
+  const isThreatMode = useAtomValue(engineThreatModeAtom);
+  const depth = useAtomValue(engineDepthAtom);
+  const multiPv = useAtomValue(engineMultiPvAtom);
+  const evalProviders = useAtomValue(evalProvidersAtom);
+  const setThreat = useSetAtom(threatAtom);
+  const setIgnoredThreats = useSetAtom(ignoredThreatsAtom);
+
+  useEffect(() => {
+    setThreat(undefined);
+    if (!isThreatMode || !engine?.getIsReady() || board.isGameOver()) return;
+
+    const fen = board.fen();
+    const nullMoveFen = getNullMoveFen(fen);
+    if (!nullMoveFen) return;
+
+    const abortController = new AbortController();
+
+    engine
+      .evaluateThreat({
+        fen,
+        depth,
+        multiPv,
+        evalProviders,
+        setPartialEval: (positionEval) => {
+          const line = positionEval.lines[0];
+          if (!line?.pv.length) return;
+
+          setThreat({ fen: nullMoveFen, line });
+        },
+        signal: abortController.signal,
+      })
+      .then(setThreat)
+      .catch((error) => {
+        if (!isAbortError(error)) throw error;
+      });
+
+    return () => {
+      abortController.abort();
+    };
+  }, [board, engine, isThreatMode, depth, multiPv, evalProviders, setThreat]);
+
+  useEffect(() => {
+    setIgnoredThreats({});
+    if (!isThreatMode || !engine?.getIsReady() || !gameEval) return;
+    if (!game.history().length) return;
+
+    const abortController = new AbortController();
+    const { fens } = getEvaluateGameParams(game);
+
+    const findIgnoredThreats = async () => {
+      for (let i = 0; i < fens.length - 1; i++) {
+        const positionEval = gameEval.positions[i];
+        const playedMoveEval = gameEval.positions[i + 1];
+        if (!positionEval || !playedMoveEval) continue;
+        if (!canIgnoreThreat(playedMoveEval)) continue;
+
+        const threat = await engine.evaluateThreat({
+          fen: fens[i],
+          depth: Math.min(depth, IGNORED_THREATS_MAX_DEPTH),
+          multiPv,
+          evalProviders,
+          signal: abortController.signal,
+        });
+        if (
+          !threat ||
+          !isThreatIgnored(fens[i], positionEval, playedMoveEval, threat)
+        ) {
+          continue;
+        }
+
+        const threatSan = moveLineUciToSan(threat.fen)(threat.line.pv[0]);
+        setIgnoredThreats((prev) => ({ ...prev, [i + 1]: threatSan }));
+      }
+    };
+
+    findIgnoredThreats().catch((error) => {
+      if (!isAbortError(error)) throw error;
+    });
+
+    return () => {
+      abortController.abort();
+    };
+  }, [
+    game,
+    gameEval,
+    engine,
+    isThreatMode,
+    depth,
+    multiPv,
+    evalProviders,
+    setIgnoredThreats,
+  ]);
+};
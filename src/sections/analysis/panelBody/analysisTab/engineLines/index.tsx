@@ -1,9 +1,17 @@
-import { Grid2 as Grid, Grid2Props as GridProps, List } from "@mui/material";
+import {
+  Grid2 as Grid,
+  Grid2Props as GridProps,
+  List,
+  Typography,
+} from "@mui/material";
 import LineEvaluation from "./lineEvaluation";
+import InfiniteAnalysisControls from "./infiniteAnalysisControls";
 import {
   boardAtom,
   currentPositionAtom,
   engineMultiPvAtom,
+  ignoredThreatsAtom,
+  threatAtom,
 } from "../../../states";
 import { useAtomValue } from "jotai";
 import { LineEval } from "@/types/eval";
@@ -12,6 +20,13 @@ export default function EngineLines(props: GridProps) {
   const board = useAtomValue(boardAtom);
   const linesNumber = useAtomValue(engineMultiPvAtom);
   const position = useAtomValue(currentPositionAtom);
+  const threat = useAtomValue(threatAtom);
+  const ignoredThreats = useAtomValue(ignoredThreatsAtom);
+
+  const ignoredThreat =
+    position.currentMoveIdx !== undefined
+      ? ignoredThreats[position.currentMoveIdx]
+      : undefined;
 
   const linesSkeleton: LineEval[] = Array.from({ length: linesNumber }).map(
     (_, i) => ({ pv: [`${i}`], depth: 0, multiPv: i + 1 })
@@ -25,11 +40,30 @@ export default function EngineLines(props: GridProps) {
 
   return (
     <Grid container justifyContent="center" alignItems="center" {...props}>
+      <InfiniteAnalysisControls />
+
       <List sx={{ width: "95%", padding: 0 }}>
         {engineLines.map((line) => (
           <LineEvaluation key={line.multiPv} line={line} />
         ))}
+
+        {position?.eval?.playedMoveLine && (
+          <LineEvaluation
+            line={position.eval.playedMoveLine}
+            label="Played move"
+          />
+        )}
+
+        {threat && (
+          <LineEvaluation line={threat.line} label="Threat" fen={threat.fen} />
+        )}
       </List>
+
+      {ignoredThreat && (
+        <Typography fontSize="0.85rem" color="error.main" width="95%">
+          This move ignored the threat {ignoredThreat}
+        </Typography>
+      )}
     </Grid>
   );
 }
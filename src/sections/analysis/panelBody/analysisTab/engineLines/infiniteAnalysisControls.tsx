@@ -0,0 +1,108 @@
+import { Icon } from "@iconify/react";
+import { IconButton, Stack, Tooltip, Typography } from "@mui/material";
+import { useAtom, useAtomValue, useSetAtom } from "jotai";
+import {
+  analysisPausedFenAtom,
+  boardAtom,
+  currentPositionAtom,
+  engineInfiniteAtom,
+  engineNameAtom,
+  engineThreatModeAtom,
+  savedEvalsAtom,
+} from "../../../states";
+
+const compactNumberFormat = new Intl.NumberFormat("en", {
+  notation: "compact",
+  maximumFractionDigits: 1,
+});
+
+export default function InfiniteAnalysisControls() {
+  const [isInfinite, setIsInfinite] = useAtom(engineInfiniteAtom);
+  const [isThreatMode, setIsThreatMode] = useAtom(engineThreatModeAtom);
+  const [pausedFen, setPausedFen] = useAtom(analysisPausedFenAtom);
+  const board = useAtomValue(boardAtom);
+  const position = useAtomValue(currentPositionAtom);
+  const engineName = useAtomValue(engineNameAtom);
+  const setSavedEvals = useSetAtom(savedEvalsAtom);
+
+  const fen = board.fen();
+  const isPaused = pausedFen === fen;
+  const searchStats = position.searchStats;
+
+  const handlePause = () => {
+    const positionEval = position.eval;
+    if (positionEval?.lines.length) {
+      setSavedEvals((prev) => ({
+        ...prev,
+        [fen]: { ...positionEval, engine: engineName },
+      }));
+    }
+    setPausedFen(fen);
+  };
+
+  if (board.isCheckmate()) return null;
+
+  return (
+    <Stack
+      direction="row"
+      alignItems="center"
+      justifyContent="space-between"
+      width="95%"
+    >
+      <Stack direction="row" alignItems="center">
+        <Tooltip
+          title={isInfinite ? "Stop infinite analysis" : "Infinite analysis"}
+        >
+          <IconButton
+            onClick={() => setIsInfinite((prev) => !prev)}
+            color={isInfinite ? "primary" : "default"}
+            size="small"
+          >
+            <Icon icon="mdi:infinity" />
+          </IconButton>
+        </Tooltip>
+
+        <Tooltip
+          title={isThreatMode ? "Hide threats" : "Show opponent threats"}
+        >
+          <IconButton
+            onClick={() => setIsThreatMode((prev) => !prev)}
+            color={isThreatMode ? "primary" : "default"}
+            size="small"
+          >
+            <Icon icon="mdi:shield-alert-outline" />
+          </IconButton>
+        </Tooltip>
+
+        {isInfinite && (
+          <Tooltip title={isPaused ? "Resume" : "Pause"}>
+            <IconButton
+              onClick={isPaused ? () => setPausedFen(undefined) : handlePause}
+              size="small"
+            >
+              <Icon icon={isPaused ? "mdi:play" : "mdi:pause"} />
+            </IconButton>
+          </Tooltip>
+        )}
+      </Stack>
+
+      {isInfinite && (
+        <Typography fontSize="0.8rem" color="text.secondary" noWrap>
+          {isPaused
+            ? "Paused"
+            : searchStats
+              ? [
+                  `Depth ${searchStats.depth}`,
+                  searchStats.nodes !== undefined &&
+                    `${compactNumberFormat.format(searchStats.nodes)} nodes`,
+                  searchStats.nps !== undefined &&
+                    `${compactNumberFormat.format(searchStats.nps)} nodes/s`,
+                ]
+                  .filter(Boolean)
+                  .join(" · ")
+              : "Starting..."}
+        </Typography>
+      )}
+    </Stack>
+  );
+}
@@ -8,10 +8,14 @@ import PrettyMoveSan from "@/components/prettyMoveSan";
 
 interface Props {
   line: LineEval;
+  label?: string;
+  // Lines of another position can't be played on the board
+  fen?: string;
 }
 
-export default function LineEvaluation({ line }: Props) {
+export default function LineEvaluation({ line, label, fen }: Props) {
   const board = useAtomValue(boardAtom);
+  const lineFen = fen ?? board.fen();
   const { addMoves } = useChessActions(boardAtom);
   const lineLabel = getLineEvalLabel(line);
 
@@ -21,8 +25,8 @@ export default function LineEvaluation({ line }: Props) {
 
   const showSkeleton = line.depth < 6;
 
-  const uciToSan = moveLineUciToSan(board.fen());
-  const turn = board.turn();
+  const uciToSan = moveLineUciToSan(lineFen);
+  const turn = lineFen.split(" ")[1] === "b" ? "b" : "w";
 
   const getColorFromMoveIdx = (moveIdx: number): "w" | "b" => {
     const moveColor = moveIdx % 2 === 0 ? turn : turn === "w" ? "b" : "w";
@@ -62,6 +66,18 @@ export default function LineEvaluation({ line }: Props) {
         )}
       </Typography>
 
+      {label && !showSkeleton && (
+        <Typography
+          noWrap
+          fontSize="0.8rem"
+          color="text.secondary"
+          marginRight={1}
+          overflow="visible"
+        >
+          {label}
+        </Typography>
+      )}
+
       <Typography noWrap fontSize="0.9rem">
         {showSkeleton ? (
           <Skeleton variant="rounded" animation="wave" width="20em" />
@@ -76,19 +92,23 @@ export default function LineEvaluation({ line }: Props) {
                 san={san}
                 color={moveColor}
                 additionalText={i < line.pv.length - 1 ? "," : ""}
-                boxProps={{
-                  onClick: () => {
-                    addMoves(line.pv.slice(0, i + 1));
-                  },
-                  sx: {
-                    cursor: "pointer",
-                    ml: i ? 0.5 : 0,
-                    transition: "opacity 0.2s ease-in-out",
-                    "&:hover": {
-                      opacity: 0.5,
-                    },
-                  },
-                }}
+                boxProps={
+                  fen
+                    ? { sx: { ml: i ? 0.5 : 0 } }
+                    : {
+                        onClick: () => {
+                          addMoves(line.pv.slice(0, i + 1));
+                        },
+                        sx: {
+                          cursor: "pointer",
+                          ml: i ? 0.5 : 0,
+                          transition: "opacity 0.2s ease-in-out",
+                          "&:hover": {
+                            opacity: 0.5,
+                          },
+                        },
+                      }
+                }
               />
             );
           })
@@ -0,0 +1,154 @@
+import {
+  Button,
+  Collapse,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from "@mui/material";
+import { Icon } from "@iconify/react";
+import { useAtom, useAtomValue } from "jotai";
+import {
+  boardAtom,
+  engineNameAtom,
+  evalTraceAtom,
+  showEvalTraceAtom,
+} from "../../states";
+import {
+  getEvalTraceChanges,
+  getTraceScoreValue,
+} from "@/lib/engine/helpers/evalTrace";
+import { isEvalTraceSupported } from "@/lib/engine/shared";
+
+// Terms that barely moved are not worth showing
+const MIN_CHANGE = 0.05;
+
+export default function EvalTraceBreakdown() {
+  const [showEvalTrace, setShowEvalTrace] = useAtom(showEvalTraceAtom);
+  const { current, previous } = useAtomValue(evalTraceAtom);
+  const engineName = useAtomValue(engineNameAtom);
+  const board = useAtomValue(boardAtom);
+
+  // Values are shown for the side that played the last move
+  const moverColor = board.turn() === "w" ? "Black" : "White";
+  const sign = moverColor === "White" ? 1 : -1;
+
+  const changes =
+    current && previous
+      ? getEvalTraceChanges(previous, current).filter(
+          (change) => Math.abs(change.change) >= MIN_CHANGE
+        )
+      : [];
+
+  return (
+    <Stack alignItems="center" width="100%">
+      <Button
+        size="small"
+        color="inherit"
+        onClick={() => setShowEvalTrace((prev) => !prev)}
+        endIcon={
+          <Icon icon={showEvalTrace ? "mdi:chevron-up" : "mdi:chevron-down"} />
+        }
+        sx={{ textTransform: "none" }}
+      >
+        Evaluation breakdown
+      </Button>
+
+      <Collapse in={showEvalTrace} sx={{ width: "100%" }}>
+        {!isEvalTraceSupported(engineName) && (
+          <Typography align="center" fontSize="0.8rem" color="text.secondary">
+            Select Stockfish 11 or Stockfish 16 in the engine settings to see
+            the terms of its classical evaluation
+          </Typography>
+        )}
+
+        {isEvalTraceSupported(engineName) && !current && (
+          <Typography align="center" fontSize="0.8rem" color="text.secondary">
+            Computing the evaluation terms...
+          </Typography>
+        )}
+
+        {current && !current.trace.terms.length && (
+          <Typography align="center" fontSize="0.8rem" color="text.secondary">
+            No breakdown is available for this position
+          </Typography>
+        )}
+
+        {current && !!current.trace.terms.length && (
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Term</TableCell>
+                {previous && <TableCell align="right">Before</TableCell>}
+                <TableCell align="right">
+                  {previous ? "After" : "Value"}
+                </TableCell>
+                {previous && (
+                  <TableCell align="right">Change for {moverColor}</TableCell>
+                )}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {previous
+                ? changes.map((change) => (
+                    <TableRow key={change.name}>
+                      <TableCell>{change.name}</TableCell>
+                      <TableCell align="right">
+                        {formatPawns(change.previousValue)}
+                      </TableCell>
+                      <TableCell align="right">
+                        {formatPawns(change.value)}
+                      </TableCell>
+                      <TableCell
+                        align="right"
+                        sx={{
+                          color:
+                            change.change * sign < 0
+                              ? "error.main"
+                              : "success.main",
+                        }}
+                      >
+                        {formatPawns(change.change * sign)}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                : current.trace.terms.map((term) => (
+                    <TableRow key={term.name}>
+                      <TableCell>{term.name}</TableCell>
+                      <TableCell align="right">
+                        {formatPawns(
+                          getTraceScoreValue(term.total, current.fen)
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {previous && current && !changes.length && (
+          <Typography align="center" fontSize="0.8rem" color="text.secondary">
+            No evaluation term changed with this move
+          </Typography>
+        )}
+
+        {current && !!current.trace.terms.length && (
+          <Typography
+            align="center"
+            fontSize="0.7rem"
+            color="text.secondary"
+            marginTop={1}
+          >
+            Term values are in pawns for White
+          </Typography>
+        )}
+      </Collapse>
+    </Stack>
+  );
+}
+
+const formatPawns = (value: number): string =>
+  `${value > 0 ? "+" : ""}${value.toFixed(2)}`;
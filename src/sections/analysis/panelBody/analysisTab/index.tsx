@@ -10,6 +10,7 @@ import PlayersMetric from "./playersMetric";
 import MoveInfo from "./moveInfo";
 import Opening from "./opening";
 import EngineLines from "./engineLines";
+import EvalTraceBreakdown from "./evalTraceBreakdown";
 
 export default function AnalysisTab(props: GridProps) {
   const gameEval = useAtomValue(gameEvalAtom);
@@ -64,6 +65,8 @@ export default function AnalysisTab(props: GridProps) {
 
         <Opening />
 
+        <EvalTraceBreakdown />
+
         {isGameOver && (
           <Typography align="center" fontSize="0.9rem" noWrap>
             Game is over
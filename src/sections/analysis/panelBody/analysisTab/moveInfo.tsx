@@ -6,6 +6,7 @@ import { moveLineUciToSan } from "@/lib/chess";
 import { MoveClassification } from "@/types/enums";
 import Image from "next/image";
 import PrettyMoveSan from "@/components/prettyMoveSan";
+import { MOVE_CLASSIFICATION_LABELS } from "@/constants";
 import { useExplanations } from "@/hooks/useExplanations";
 
 export default function MoveInfo() {
@@ -82,7 +83,7 @@ export default function MoveInfo() {
               san={position.lastMove?.san ?? ""}
               color={position.lastMove?.color ?? "w"}
               additionalText={
-                " is " + moveClassificationLabels[moveClassification]
+                " is " + MOVE_CLASSIFICATION_LABELS[moveClassification]
               }
             />
           </Stack>
@@ -157,16 +158,3 @@ export default function MoveInfo() {
     </Stack>
   );
 }
-
-const moveClassificationLabels: Record<MoveClassification, string> = {
-  [MoveClassification.Opening]: "an opening move",
-  [MoveClassification.Forced]: "forced",
-  [MoveClassification.Splendid]: "splendid !!",
-  [MoveClassification.Perfect]: "the only good move !",
-  [MoveClassification.Best]: "the best move",
-  [MoveClassification.Excellent]: "excellent",
-  [MoveClassification.Okay]: "an okay move",
-  [MoveClassification.Inaccuracy]: "an inaccuracy",
-  [MoveClassification.Mistake]: "a mistake",
-  [MoveClassification.Blunder]: "a blunder",
-};
@@ -1,8 +1,14 @@
 import { MoveClassification } from "@/types/enums";
-import { Grid2 as Grid } from "@mui/material";
+import { Grid2 as Grid, Tooltip } from "@mui/material";
+import { Icon } from "@iconify/react";
 import Image from "next/image";
 import { useAtomValue } from "jotai";
-import { boardAtom, currentPositionAtom, gameAtom } from "../../../states";
+import {
+  boardAtom,
+  currentPositionAtom,
+  gameAtom,
+  ignoredThreatsAtom,
+} from "../../../states";
 import { useChessActions } from "@/hooks/useChessActions";
 import { useEffect } from "react";
 import { isInViewport } from "@/lib/helpers";
@@ -26,6 +32,7 @@ export default function MoveItem({
   const board = useAtomValue(boardAtom);
   const { goToMove } = useChessActions(boardAtom);
   const position = useAtomValue(currentPositionAtom);
+  const ignoredThreat = useAtomValue(ignoredThreatsAtom)[moveIdx];
   const color = getMoveColor(moveClassification);
 
   const isCurrentMove = position?.currentMoveIdx === moveIdx;
@@ -89,6 +96,18 @@ export default function MoveItem({
         color={moveColor}
         typographyProps={{ fontSize: "0.9rem" }}
       />
+
+      {ignoredThreat && (
+        <Tooltip title={`Ignored the threat ${ignoredThreat}`}>
+          <span style={{ display: "flex" }}>
+            <Icon
+              icon="mdi:shield-alert-outline"
+              color={CLASSIFICATION_COLORS[MoveClassification.Blunder]}
+              width={14}
+            />
+          </span>
+        </Tooltip>
+      )}
     </Grid>
   );
 }
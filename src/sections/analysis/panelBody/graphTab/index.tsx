@@ -15,6 +15,7 @@ import {
   currentPositionAtom,
   gameAtom,
   gameEvalAtom,
+  showWdlAtom,
 } from "../../states";
 import { useCallback, useMemo } from "react";
 import type { ReactElement } from "react";
@@ -31,10 +32,14 @@ export default function GraphTab(props: GridProps) {
   const currentPosition = useAtomValue(currentPositionAtom);
   const { goToMove } = useChessActions(boardAtom);
   const game = useAtomValue(gameAtom);
+  const showWdl = useAtomValue(showWdlAtom);
 
   const chartData: ChartItemData[] = useMemo(
-    () => gameEval?.positions.map(formatEvalToChartData) ?? [],
-    [gameEval]
+    () =>
+      gameEval?.positions.map((position, index) =>
+        formatEvalToChartData(position, index, showWdl)
+      ) ?? [],
+    [gameEval, showWdl]
   );
 
   const bestDotIndices = useMemo(() => {
@@ -162,7 +167,8 @@ export default function GraphTab(props: GridProps) {
 
 const formatEvalToChartData = (
   position: PositionEval,
-  index: number
+  index: number,
+  showWdl: boolean
 ): ChartItemData => {
   const line = position.lines[0];
 
@@ -171,9 +177,18 @@ const formatEvalToChartData = (
     value: 10,
     cp: line.cp,
     mate: line.mate,
+    wdl: showWdl ? line.wdl : undefined,
     moveClassification: position.moveClassification,
   };
 
+  if (chartItem.wdl) {
+    const [win, draw] = chartItem.wdl;
+    return {
+      ...chartItem,
+      value: (win + draw / 2) / 50,
+    };
+  }
+
   if (line.mate) {
     return {
       ...chartItem,
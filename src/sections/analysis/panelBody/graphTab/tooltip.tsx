@@ -22,6 +22,8 @@ export default function CustomTooltip({
       }}
     >
       {getLineEvalLabel(data)}
+      {data.wdl &&
+        ` (W ${data.wdl[0] / 10}% · D ${data.wdl[1] / 10}% · L ${data.wdl[2] / 10}%)`}
     </div>
   );
 }
@@ -5,5 +5,6 @@ export interface ChartItemData {
   value: number;
   cp?: number;
   mate?: number;
+  wdl?: [number, number, number];
   moveClassification?: MoveClassification;
 }
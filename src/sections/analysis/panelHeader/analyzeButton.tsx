@@ -1,7 +1,13 @@
 import { Icon } from "@iconify/react";
 import {
   engineDepthAtom,
+  engineDeterministicAtom,
+  engineProgressiveAtom,
+  engineUseWdlAtom,
+  engineMoveTimeAtom,
   engineMultiPvAtom,
+  engineNodesAtom,
+  evalProvidersAtom,
   engineNameAtom,
   engineWorkersNbAtom,
   evaluationProgressAtom,
@@ -15,27 +21,49 @@ import { useGameDatabase } from "@/hooks/useGameDatabase";
 import { LoadingButton } from "@mui/lab";
 import { useEngine } from "@/hooks/useEngine";
 import { logAnalyticsEvent } from "@/lib/firebase";
-import { SavedEvals } from "@/types/eval";
-import { useEffect, useCallback } from "react";
+import { GameEval, SavedEvals } from "@/types/eval";
+import { useEffect, useCallback, useState } from "react";
 import { usePlayersData } from "@/hooks/usePlayersData";
-import { Typography } from "@mui/material";
+import { Alert, Snackbar, Typography } from "@mui/material";
+import { EngineCrashedError } from "@/lib/engine/errors";
+import { getEngineLabel } from "@/lib/engine/shared";
+import { useCustomEngines } from "@/hooks/useCustomEngines";
+import { useEngineDownloads } from "@/hooks/useEngineDownloads";
+import { getDownloadPercentage } from "@/lib/engine/engineAssets";
 import { useCurrentPosition } from "../hooks/useCurrentPosition";
+import { useEvalTrace } from "../hooks/useEvalTrace";
+import { useThreats } from "../hooks/useThreats";
 
 export default function AnalyzeButton() {
   const engineName = useAtomValue(engineNameAtom);
   const engine = useEngine(engineName);
   useCurrentPosition(engine);
+  useEvalTrace(engine);
+  useThreats(engine);
   const engineWorkersNb = useAtomValue(engineWorkersNbAtom);
   const [evaluationProgress, setEvaluationProgress] = useAtom(
     evaluationProgressAtom
   );
   const engineDepth = useAtomValue(engineDepthAtom);
   const engineMultiPv = useAtomValue(engineMultiPvAtom);
+  const engineMoveTime = useAtomValue(engineMoveTimeAtom);
+  const engineNodes = useAtomValue(engineNodesAtom);
+  const engineDeterministic = useAtomValue(engineDeterministicAtom);
+  const engineProgressive = useAtomValue(engineProgressiveAtom);
+  const engineUseWdl = useAtomValue(engineUseWdlAtom);
+  const evalProviders = useAtomValue(evalProvidersAtom);
   const { setGameEval, gameFromUrl } = useGameDatabase();
   const [gameEval, setEval] = useAtom(gameEvalAtom);
   const game = useAtomValue(gameAtom);
   const setSavedEvals = useSetAtom(savedEvalsAtom);
   const { white, black } = usePlayersData(gameAtom);
+  const [engineError, setEngineError] = useState("");
+  const { customEngines } = useCustomEngines();
+  const { downloads } = useEngineDownloads();
+  const engineDownloadProgress =
+    downloads[engineName]?.status === "downloading"
+      ? downloads[engineName]?.progress
+      : undefined;
 
   const readyToAnalyse =
     engine?.getIsReady() && game.history().length > 0 && !evaluationProgress;
@@ -50,17 +78,35 @@ export default function AnalyzeButton() {
       return;
     }
 
-    const newGameEval = await engine.evaluateGame({
-      ...params,
-      depth: engineDepth,
-      multiPv: engineMultiPv,
-      setEvaluationProgress,
-      playersRatings: {
-        white: white?.rating,
-        black: black?.rating,
-      },
-      workersNb: engineWorkersNb,
-    });
+    let newGameEval: GameEval;
+    try {
+      newGameEval = await engine.evaluateGame({
+        ...params,
+        depth: engineDepth,
+        movetime: engineMoveTime || undefined,
+        nodes: engineNodes || undefined,
+        multiPv: engineMultiPv,
+        deterministic: engineDeterministic,
+        progressive: engineProgressive,
+        useWdl: engineUseWdl,
+        evalProviders,
+        setEvaluationProgress,
+        setPartialGameEval: setEval,
+        playersRatings: {
+          white: white?.rating,
+          black: black?.rating,
+        },
+        workersNb: engineWorkersNb,
+      });
+    } catch (error) {
+      setEvaluationProgress(0);
+      if (!(error instanceof EngineCrashedError)) throw error;
+
+      setEngineError(
+        `${getEngineLabel(engineName, customEngines)} crashed repeatedly, try a lighter engine or fewer threads in the engine settings`
+      );
+      return;
+    }
 
     setEval(newGameEval);
     setEvaluationProgress(0);
@@ -82,15 +128,24 @@ export default function AnalyzeButton() {
       engine: engineName,
       depth: engineDepth,
       multiPv: engineMultiPv,
+      deterministic: engineDeterministic,
+      progressive: engineProgressive,
       nbPositions: params.fens.length,
     });
   }, [
     engine,
     engineName,
+    customEngines,
     engineWorkersNb,
     game,
     engineDepth,
     engineMultiPv,
+    engineMoveTime,
+    engineNodes,
+    engineDeterministic,
+    engineProgressive,
+    engineUseWdl,
+    evalProviders,
     evaluationProgress,
     setEvaluationProgress,
     setEval,
@@ -115,16 +170,35 @@ export default function AnalyzeButton() {
   if (evaluationProgress) return null;
 
   return (
-    <LoadingButton
-      variant="contained"
-      size="small"
-      startIcon={<Icon icon="streamline:magnifying-glass-solid" height={12} />}
-      onClick={handleAnalyze}
-      disabled={!readyToAnalyse}
-    >
-      <Typography fontSize="0.9em" fontWeight="500" lineHeight="1.4em">
-        {gameEval ? "Analyze again" : "Analyze"}
-      </Typography>
-    </LoadingButton>
+    <>
+      <LoadingButton
+        variant="contained"
+        size="small"
+        startIcon={
+          <Icon icon="streamline:magnifying-glass-solid" height={12} />
+        }
+        onClick={handleAnalyze}
+        disabled={!readyToAnalyse}
+      >
+        <Typography fontSize="0.9em" fontWeight="500" lineHeight="1.4em">
+          {engineDownloadProgress
+            ? `Downloading engine ${getDownloadPercentage(engineDownloadProgress)}%`
+            : gameEval
+              ? "Analyze again"
+              : "Analyze"}
+        </Typography>
+      </LoadingButton>
+
+      <Snackbar open={!!engineError}>
+        <Alert
+          onClose={() => setEngineError("")}
+          severity="error"
+          variant="filled"
+          sx={{ width: "100%" }}
+        >
+          {engineError}
+        </Alert>
+      </Snackbar>
+    </>
   );
 }
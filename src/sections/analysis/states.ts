@@ -1,7 +1,14 @@
-import { DEFAULT_ENGINE } from "@/constants";
+import { DEFAULT_ENGINE, DEFAULT_EVAL_PROVIDERS_SETTINGS } from "@/constants";
 import { getRecommendedWorkersNb } from "@/lib/engine/worker";
-import { EngineName } from "@/types/enums";
-import { CurrentPosition, GameEval, SavedEvals } from "@/types/eval";
+import { EngineId, UciOption, UciOptionValues } from "@/types/engine";
+import {
+  CurrentPosition,
+  EvalProvidersSettings,
+  GameEval,
+  PositionEvalTrace,
+  SavedEvals,
+  ThreatEval,
+} from "@/types/eval";
 import { GameExplanations } from "@/types/explanation";
 import { Chess } from "chess.js";
 import { atom } from "jotai";
@@ -15,14 +22,41 @@ export const currentPositionAtom = atom<CurrentPosition>({});
 export const boardOrientationAtom = atom(true);
 export const showBestMoveArrowAtom = atom(true);
 export const showPlayerMoveIconAtom = atom(true);
+export const showWdlAtom = atom(false);
 
-export const engineNameAtom = atom<EngineName>(DEFAULT_ENGINE);
+export const engineNameAtom = atom<EngineId>(DEFAULT_ENGINE);
 export const engineDepthAtom = atom(14);
 export const engineMultiPvAtom = atom(3);
+export const engineMoveTimeAtom = atom(0);
+export const engineNodesAtom = atom(0);
+export const engineDeterministicAtom = atom(false);
+export const engineProgressiveAtom = atom(false);
+export const engineUseWdlAtom = atom(false);
+export const engineInfiniteAtom = atom(false);
+export const engineThreatModeAtom = atom(false);
+export const threatAtom = atom<ThreatEval | undefined>(undefined);
+// San of the threat ignored by each move of the game, by move index
+export const ignoredThreatsAtom = atom<Record<number, string>>({});
+export const analysisPausedFenAtom = atom<string | undefined>(undefined);
+export const evalProvidersAtom = atom<EvalProvidersSettings>(
+  DEFAULT_EVAL_PROVIDERS_SETTINGS
+);
 export const engineWorkersNbAtom = atomWithStorage(
   "engineWorkersNb",
   getRecommendedWorkersNb()
 );
+export const engineOptionsAtom = atomWithStorage<
+  Partial<Record<EngineId, UciOption[]>>
+>("engine-options", {});
+export const engineOptionValuesAtom = atomWithStorage<
+  Partial<Record<EngineId, UciOptionValues>>
+>("engine-option-values", {});
+export const engineSharedAtom = atomWithStorage("engine-shared", false);
+export const showEvalTraceAtom = atom(false);
+export const evalTraceAtom = atom<{
+  current?: PositionEvalTrace;
+  previous?: PositionEvalTrace;
+}>({});
 export const evaluationProgressAtom = atom(0);
 
 export const savedEvalsAtom = atom<SavedEvals>({});
@@ -0,0 +1,118 @@
+import {
+  Button,
+  Grid2 as Grid,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from "@mui/material";
+import { useAtom } from "jotai";
+import { engineWorkersNbAtom } from "../analysis/states";
+import {
+  getBestWorkersNb,
+  getEstimatedGameDurationMs,
+} from "@/lib/engine/benchmark";
+import { getEngineLabel } from "@/lib/engine/shared";
+import { useCustomEngines } from "@/hooks/useCustomEngines";
+import { BenchmarkResult, EngineId } from "@/types/engine";
+
+interface Props {
+  results: BenchmarkResult[];
+}
+
+export default function BenchmarkResults({ results }: Props) {
+  const [engineWorkersNb, setEngineWorkersNb] = useAtom(engineWorkersNbAtom);
+  const { customEngines } = useCustomEngines();
+
+  const engineNames = results.reduce<EngineId[]>(
+    (names, result) =>
+      names.includes(result.engineName) ? names : [...names, result.engineName],
+    []
+  );
+
+  if (!results.length) return null;
+
+  return (
+    <Grid container justifyContent="center" size={12} rowGap={4}>
+      {engineNames.map((engineName) => {
+        const engineResults = results.filter(
+          (result) => result.engineName === engineName
+        );
+        const bestWorkersNb = getBestWorkersNb(engineResults);
+
+        return (
+          <Grid
+            key={engineName}
+            container
+            justifyContent="center"
+            size={12}
+            rowGap={1}
+          >
+            <Grid
+              container
+              justifyContent="space-between"
+              alignItems="center"
+              size={12}
+            >
+              <Typography variant="h6">
+                {getEngineLabel(engineName, customEngines)}
+              </Typography>
+
+              {bestWorkersNb !== undefined && (
+                <Button
+                  variant="contained"
+                  size="small"
+                  disabled={bestWorkersNb === engineWorkersNb}
+                  onClick={() => setEngineWorkersNb(bestWorkersNb)}
+                >
+                  {bestWorkersNb === engineWorkersNb
+                    ? `Using ${bestWorkersNb} threads`
+                    : `Use ${bestWorkersNb} threads`}
+                </Button>
+              )}
+            </Grid>
+
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Threads</TableCell>
+                  <TableCell align="right">Nodes per second</TableCell>
+                  <TableCell align="right">Time per position</TableCell>
+                  <TableCell align="right">Time per game</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {engineResults.map((result) => (
+                  <TableRow
+                    key={result.workersNb}
+                    selected={result.workersNb === bestWorkersNb}
+                  >
+                    <TableCell>{result.workersNb}</TableCell>
+                    <TableCell align="right">
+                      {result.nps.toLocaleString()}
+                    </TableCell>
+                    <TableCell align="right">
+                      {formatDuration(result.durationMs / result.positionsNb)}
+                    </TableCell>
+                    <TableCell align="right">
+                      {formatDuration(getEstimatedGameDurationMs(result))}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Grid>
+        );
+      })}
+    </Grid>
+  );
+}
+
+const formatDuration = (durationMs: number): string =>
+  durationMs < 60_000
+    ? `${(durationMs / 1000).toFixed(1)}s`
+    : `${Math.floor(durationMs / 60_000)}min ${Math.round(
+        (durationMs % 60_000) / 1000
+      )}s`;
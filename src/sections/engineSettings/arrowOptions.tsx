@@ -2,6 +2,7 @@ import { Checkbox, FormControlLabel, Grid2 as Grid } from "@mui/material";
 import {
   showBestMoveArrowAtom,
   showPlayerMoveIconAtom,
+  showWdlAtom,
 } from "../analysis/states";
 import { useAtomLocalStorage } from "@/hooks/useAtomLocalStorage";
 
@@ -14,6 +15,7 @@ export default function ArrowOptions() {
     "show-icon-player-move",
     showPlayerMoveIconAtom
   );
+  const [showWdl, setShowWdl] = useAtomLocalStorage("show-wdl", showWdlAtom);
 
   return (
     <Grid
@@ -43,6 +45,16 @@ export default function ArrowOptions() {
         label="Show played move icon"
         sx={{ marginX: 0 }}
       />
+      <FormControlLabel
+        control={
+          <Checkbox
+            checked={showWdl}
+            onChange={(_, checked) => setShowWdl(checked)}
+          />
+        }
+        label="Show win/draw/loss"
+        sx={{ marginX: 0 }}
+      />
     </Grid>
   );
 }
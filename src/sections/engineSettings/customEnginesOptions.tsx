@@ -0,0 +1,139 @@
+import {
+  Button,
+  Grid2 as Grid,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { Icon } from "@iconify/react";
+import { useState } from "react";
+import { useCustomEngines } from "@/hooks/useCustomEngines";
+import { CustomEngineId, EngineId } from "@/types/engine";
+import { DEFAULT_ENGINE } from "@/constants";
+
+interface Props {
+  engineName: EngineId;
+  setEngineName: (engineName: EngineId) => void;
+}
+
+export default function CustomEnginesOptions({
+  engineName,
+  setEngineName,
+}: Props) {
+  const { customEngines, addEngine, removeEngine } = useCustomEngines();
+  const [name, setName] = useState("");
+  const [url, setUrl] = useState("");
+  const [file, setFile] = useState<File | undefined>(undefined);
+  const [error, setError] = useState("");
+
+  const handleAdd = async () => {
+    setError("");
+
+    try {
+      const customEngine = await addEngine({ name, url, file });
+      setEngineName(customEngine.id);
+      setName("");
+      setUrl("");
+      setFile(undefined);
+    } catch (error) {
+      console.error(error);
+      setError(error instanceof Error ? error.message : "Unknown error");
+    }
+  };
+
+  const handleRemove = async (id: CustomEngineId) => {
+    if (engineName === id) setEngineName(DEFAULT_ENGINE);
+    await removeEngine(id);
+  };
+
+  return (
+    <Grid
+      container
+      justifyContent="center"
+      alignItems="center"
+      size={11}
+      rowGap={1}
+    >
+      <Grid container size={12}>
+        <Typography variant="body2">
+          Custom UCI engines: a self-contained JavaScript file, or the URL of an
+          engine build served by this site
+        </Typography>
+      </Grid>
+
+      {!!customEngines.length && (
+        <List dense disablePadding sx={{ width: "100%" }}>
+          {customEngines.map((customEngine) => (
+            <ListItem
+              key={customEngine.id}
+              disablePadding
+              secondaryAction={
+                <IconButton
+                  size="small"
+                  onClick={() => handleRemove(customEngine.id)}
+                >
+                  <Icon icon="mdi:delete-outline" />
+                </IconButton>
+              }
+            >
+              <ListItemText
+                primary={customEngine.name}
+                secondary={[
+                  customEngine.file ? "Local file" : customEngine.url,
+                  customEngine.options &&
+                    `${customEngine.options.length} UCI options`,
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              />
+            </ListItem>
+          ))}
+        </List>
+      )}
+
+      <Grid container size={12} columnGap={2} rowGap={1} alignItems="center">
+        <TextField
+          label="Name"
+          size="small"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <TextField
+          label="URL"
+          size="small"
+          placeholder="/engines/my-engine/engine.js"
+          value={file ? file.name : url}
+          disabled={!!file}
+          onChange={(e) => setUrl(e.target.value)}
+          sx={{ flexGrow: 1 }}
+        />
+        <Button variant="outlined" size="small" component="label">
+          Choose file
+          <input
+            hidden
+            type="file"
+            accept=".js"
+            onChange={(e) => setFile(e.target.files?.[0])}
+          />
+        </Button>
+        {file && (
+          <IconButton size="small" onClick={() => setFile(undefined)}>
+            <Icon icon="mdi:close" />
+          </IconButton>
+        )}
+        <Button variant="contained" size="small" onClick={handleAdd}>
+          Add engine
+        </Button>
+      </Grid>
+
+      {error && (
+        <Typography variant="body2" color="error">
+          {error}
+        </Typography>
+      )}
+    </Grid>
+  );
+}
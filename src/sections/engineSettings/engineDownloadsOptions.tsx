@@ -0,0 +1,109 @@
+import {
+  Grid2 as Grid,
+  IconButton,
+  LinearProgress,
+  List,
+  ListItem,
+  ListItemText,
+  Typography,
+} from "@mui/material";
+import { Icon } from "@iconify/react";
+import { useEffect } from "react";
+import { ENGINE_LABELS } from "@/constants";
+import { EngineName } from "@/types/enums";
+import { useEngineDownloads } from "@/hooks/useEngineDownloads";
+import {
+  getDownloadPercentage,
+  getEngineFiles,
+  isEngineCacheAvailable,
+} from "@/lib/engine/engineAssets";
+import { isEngineSupported } from "@/lib/engine/shared";
+import { EngineDownload } from "@/types/engine";
+
+export default function EngineDownloadsOptions() {
+  const { downloads, download, remove, refreshDownloads } =
+    useEngineDownloads();
+
+  useEffect(() => {
+    refreshDownloads();
+  }, [refreshDownloads]);
+
+  if (!isEngineCacheAvailable()) return null;
+
+  const engineNames = Object.values(EngineName).filter(
+    (engineName) =>
+      isEngineSupported(engineName) && !!getEngineFiles(engineName).length
+  );
+
+  return (
+    <Grid
+      container
+      justifyContent="center"
+      alignItems="center"
+      size={11}
+      rowGap={1}
+    >
+      <Grid container size={12}>
+        <Typography variant="body2">
+          Downloaded engines, kept on this device for offline use
+        </Typography>
+      </Grid>
+
+      <List dense disablePadding sx={{ width: "100%" }}>
+        {engineNames.map((engineName) => {
+          const engineDownload = downloads[engineName];
+
+          return (
+            <ListItem
+              key={engineName}
+              disablePadding
+              secondaryAction={
+                engineDownload?.status === "downloaded" ? (
+                  <IconButton size="small" onClick={() => remove(engineName)}>
+                    <Icon icon="mdi:delete-outline" />
+                  </IconButton>
+                ) : (
+                  <IconButton
+                    size="small"
+                    disabled={engineDownload?.status === "downloading"}
+                    onClick={() => download(engineName).catch(console.error)}
+                  >
+                    <Icon icon="mdi:download" />
+                  </IconButton>
+                )
+              }
+            >
+              <ListItemText
+                primary={ENGINE_LABELS[engineName].full}
+                secondary={getDownloadLabel(engineDownload)}
+              />
+              {engineDownload?.status === "downloading" &&
+                engineDownload.progress && (
+                  <LinearProgress
+                    variant="determinate"
+                    value={getDownloadPercentage(engineDownload.progress)}
+                    sx={{ width: 80, marginRight: 6 }}
+                  />
+                )}
+            </ListItem>
+          );
+        })}
+      </List>
+    </Grid>
+  );
+}
+
+const getDownloadLabel = (engineDownload?: EngineDownload): string => {
+  switch (engineDownload?.status) {
+    case "downloaded":
+      return "Downloaded";
+    case "downloading":
+      return engineDownload.progress
+        ? `Downloading ${getDownloadPercentage(engineDownload.progress)}%`
+        : "Downloading";
+    case "failed":
+      return `Download failed : ${engineDownload.error}`;
+    default:
+      return "Not downloaded";
+  }
+};
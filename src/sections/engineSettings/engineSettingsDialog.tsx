@@ -15,14 +15,31 @@ import {
   Grid2 as Grid,
   Box,
   useTheme,
+  FormControlLabel,
+  Checkbox,
 } from "@mui/material";
 import {
   engineNameAtom,
   engineDepthAtom,
   engineMultiPvAtom,
   engineWorkersNbAtom,
+  engineMoveTimeAtom,
+  engineNodesAtom,
+  engineDeterministicAtom,
+  engineProgressiveAtom,
+  engineUseWdlAtom,
+  engineSharedAtom,
+  evalProvidersAtom,
 } from "../analysis/states";
 import ArrowOptions from "./arrowOptions";
+import EvalCacheOptions from "./evalCacheOptions";
+import EvalProvidersOptions from "./evalProvidersOptions";
+import CustomEnginesOptions from "./customEnginesOptions";
+import UciOptionsEditor from "./uciOptionsEditor";
+import FakeEngineOptions from "./fakeEngineOptions";
+import EngineDownloadsOptions from "./engineDownloadsOptions";
+import { useCustomEngines } from "@/hooks/useCustomEngines";
+import { EngineId } from "@/types/engine";
 import { useAtomLocalStorage } from "@/hooks/useAtomLocalStorage";
 import { useEffect } from "react";
 import { isEngineSupported } from "@/lib/engine/shared";
@@ -37,6 +54,7 @@ import {
   STRONGEST_ENGINE,
 } from "@/constants";
 import { getRecommendedWorkersNb } from "@/lib/engine/worker";
+import { isEngineBrokerSupported } from "@/lib/engine/engineBroker";
 
 interface Props {
   open: boolean;
@@ -56,9 +74,36 @@ export default function EngineSettingsDialog({ open, onClose }: Props) {
     "engine-name",
     engineNameAtom
   );
+  const [moveTime, setMoveTime] = useAtomLocalStorage(
+    "engine-move-time",
+    engineMoveTimeAtom
+  );
+  const [nodes, setNodes] = useAtomLocalStorage(
+    "engine-nodes",
+    engineNodesAtom
+  );
+  const [deterministic, setDeterministic] = useAtomLocalStorage(
+    "engine-deterministic",
+    engineDeterministicAtom
+  );
+  const [progressive, setProgressive] = useAtomLocalStorage(
+    "engine-progressive",
+    engineProgressiveAtom
+  );
+  const [useWdl, setUseWdl] = useAtomLocalStorage(
+    "engine-use-wdl",
+    engineUseWdlAtom
+  );
+  const [evalProviders, setEvalProviders] = useAtomLocalStorage(
+    "eval-providers",
+    evalProvidersAtom
+  );
   const [boardHue, setBoardHue] = useAtom(boardHueAtom);
   const [pieceSet, setPieceSet] = useAtom(pieceSetAtom);
   const [engineWorkersNb, setEngineWorkersNb] = useAtom(engineWorkersNbAtom);
+  const [engineShared, setEngineShared] = useAtom(engineSharedAtom);
+
+  const { customEngines } = useCustomEngines();
 
   const theme = useTheme();
   const isDarkMode = theme.palette.mode === "dark";
@@ -116,7 +161,7 @@ export default function EngineSettingsDialog({ open, onClose }: Props) {
                 displayEmpty
                 input={<OutlinedInput label="Engine" />}
                 value={engineName}
-                onChange={(e) => setEngineName(e.target.value as EngineName)}
+                onChange={(e) => setEngineName(e.target.value as EngineId)}
                 sx={{ width: 280, maxWidth: "100%" }}
               >
                 {Object.values(EngineName).map((engine) => (
@@ -128,6 +173,15 @@ export default function EngineSettingsDialog({ open, onClose }: Props) {
                     {ENGINE_LABELS[engine].full}
                   </MenuItem>
                 ))}
+                {customEngines.map((customEngine) => (
+                  <MenuItem
+                    key={customEngine.id}
+                    value={customEngine.id}
+                    disabled={!isEngineSupported(customEngine.id)}
+                  >
+                    {customEngine.name}
+                  </MenuItem>
+                ))}
               </Select>
             </FormControl>
           </Grid>
@@ -151,6 +205,122 @@ export default function EngineSettingsDialog({ open, onClose }: Props) {
             size={6}
           />
 
+          <Grid
+            container
+            justifyContent="center"
+            alignItems="center"
+            size={{ xs: 12, sm: 6 }}
+          >
+            <Slider
+              label="Time per position (s)"
+              value={deterministic ? 0 : moveTime / 1000}
+              setValue={(value) => setMoveTime(value * 1000)}
+              min={0}
+              max={10}
+              marksFilter={1}
+              infoContent={
+                <>
+                  Maximum time spent by the engine on each position during game
+                  analysis. 0 means that only the maximum depth limits the
+                  search. It is ignored in deterministic mode, as the analysis
+                  would depend on the speed of your device.
+                </>
+              }
+            />
+          </Grid>
+
+          <Grid
+            container
+            justifyContent="center"
+            alignItems="center"
+            size={{ xs: 12, sm: 6 }}
+          >
+            <Slider
+              label="Nodes per position (millions)"
+              value={nodes / 1_000_000}
+              setValue={(value) => setNodes(value * 1_000_000)}
+              min={0}
+              max={10}
+              marksFilter={1}
+              infoContent={
+                <>
+                  Maximum number of nodes searched by the engine on each
+                  position. 0 means no node limit, or 1 million nodes in
+                  deterministic mode.
+                </>
+              }
+            />
+          </Grid>
+
+          <Grid container justifyContent="center" size={12}>
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={deterministic}
+                  onChange={(_, checked) => setDeterministic(checked)}
+                />
+              }
+              label="Deterministic game analysis"
+              sx={{ marginX: 0 }}
+            />
+          </Grid>
+
+          <Grid container justifyContent="center" size={12}>
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={progressive}
+                  onChange={(_, checked) => setProgressive(checked)}
+                />
+              }
+              label="Quick first pass, then deepen critical moves"
+              sx={{ marginX: 0 }}
+            />
+          </Grid>
+
+          <Grid container justifyContent="center" size={12}>
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={useWdl}
+                  onChange={(_, checked) => setUseWdl(checked)}
+                />
+              }
+              label="Use engine win/draw/loss for accuracy and move labels"
+              sx={{ marginX: 0 }}
+            />
+          </Grid>
+
+          <Grid container justifyContent="center" size={12}>
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={engineShared}
+                  disabled={!isEngineBrokerSupported()}
+                  onChange={(_, checked) => setEngineShared(checked)}
+                />
+              }
+              label="Share the engine between tabs to save memory"
+              sx={{ marginX: 0 }}
+            />
+          </Grid>
+
+          <UciOptionsEditor engineName={engineName} />
+
+          {engineName === EngineName.Fake && <FakeEngineOptions />}
+
+          <EngineDownloadsOptions />
+
+          <CustomEnginesOptions
+            engineName={engineName}
+            setEngineName={setEngineName}
+          />
+
+          <EvalProvidersOptions
+            settings={evalProviders}
+            setSettings={setEvalProviders}
+          />
+
           <ArrowOptions />
 
           <Grid
@@ -230,6 +400,8 @@ export default function EngineSettingsDialog({ open, onClose }: Props) {
               }
             />
           </Grid>
+
+          <EvalCacheOptions />
         </Grid>
       </DialogContent>
       <DialogActions sx={{ m: 1 }}>
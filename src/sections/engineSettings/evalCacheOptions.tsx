@@ -0,0 +1,50 @@
+import { Button, Grid2 as Grid, Typography } from "@mui/material";
+import { useCallback, useEffect, useState } from "react";
+import { clearEvalCache, getCachedEvalsCount } from "@/lib/evalCache";
+
+export default function EvalCacheOptions() {
+  const [cachedEvalsCount, setCachedEvalsCount] = useState<number | null>(null);
+
+  const refreshCount = useCallback(async () => {
+    try {
+      setCachedEvalsCount(await getCachedEvalsCount());
+    } catch (error) {
+      console.error(error);
+      setCachedEvalsCount(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshCount();
+  }, [refreshCount]);
+
+  const handleClear = async () => {
+    await clearEvalCache();
+    refreshCount();
+  };
+
+  return (
+    <Grid
+      container
+      justifyContent="center"
+      alignItems="center"
+      size={12}
+      gap={3}
+    >
+      <Typography variant="body2">
+        {cachedEvalsCount === null
+          ? "Evaluation cache unavailable"
+          : `${cachedEvalsCount} positions in the evaluation cache`}
+      </Typography>
+
+      <Button
+        variant="outlined"
+        size="small"
+        onClick={handleClear}
+        disabled={!cachedEvalsCount}
+      >
+        Clear cache
+      </Button>
+    </Grid>
+  );
+}
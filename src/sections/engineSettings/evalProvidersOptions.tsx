@@ -0,0 +1,140 @@
+import {
+  Checkbox,
+  FormControlLabel,
+  Grid2 as Grid,
+  IconButton,
+  List,
+  ListItem,
+  Switch,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { Icon } from "@iconify/react";
+import { EVAL_PROVIDER_LABELS } from "@/constants";
+import { EvalProviderName } from "@/types/enums";
+import { EvalProvidersSettings } from "@/types/eval";
+
+interface Props {
+  settings: EvalProvidersSettings;
+  setSettings: (settings: EvalProvidersSettings) => void;
+}
+
+export default function EvalProvidersOptions({ settings, setSettings }: Props) {
+  const { providers, offline, httpEndpoint } = settings;
+
+  const isHttpEnabled = providers.some(
+    ({ name, enabled }) => name === EvalProviderName.Http && enabled
+  );
+
+  const moveProvider = (index: number, offset: number) => {
+    const newIndex = index + offset;
+    if (newIndex < 0 || newIndex >= providers.length) return;
+
+    const newProviders = [...providers];
+    [newProviders[index], newProviders[newIndex]] = [
+      newProviders[newIndex],
+      newProviders[index],
+    ];
+    setSettings({ ...settings, providers: newProviders });
+  };
+
+  const toggleProvider = (index: number, enabled: boolean) => {
+    setSettings({
+      ...settings,
+      providers: providers.map((provider, i) =>
+        i === index ? { ...provider, enabled } : provider
+      ),
+    });
+  };
+
+  return (
+    <Grid
+      container
+      justifyContent="center"
+      alignItems="center"
+      size={11}
+      rowGap={1}
+    >
+      <Grid container justifyContent="space-between" size={12}>
+        <Typography variant="body2">Evaluation sources, in order</Typography>
+
+        <FormControlLabel
+          control={
+            <Switch
+              checked={offline}
+              onChange={(_, checked) =>
+                setSettings({ ...settings, offline: checked })
+              }
+            />
+          }
+          label="Offline mode (never send positions out)"
+          sx={{ marginX: 0 }}
+        />
+      </Grid>
+
+      <List dense disablePadding sx={{ width: "100%" }}>
+        {providers.map(({ name, enabled }, index) => (
+          <ListItem
+            key={name}
+            disablePadding
+            secondaryAction={
+              <>
+                <IconButton
+                  size="small"
+                  onClick={() => moveProvider(index, -1)}
+                  disabled={index === 0}
+                  aria-label={`Move ${EVAL_PROVIDER_LABELS[name]} up`}
+                >
+                  <Icon icon="mdi:chevron-up" />
+                </IconButton>
+                <IconButton
+                  size="small"
+                  onClick={() => moveProvider(index, 1)}
+                  disabled={index === providers.length - 1}
+                  aria-label={`Move ${EVAL_PROVIDER_LABELS[name]} down`}
+                >
+                  <Icon icon="mdi:chevron-down" />
+                </IconButton>
+              </>
+            }
+          >
+            <FormControlLabel
+              control={
+                <Checkbox
+                  size="small"
+                  checked={enabled}
+                  onChange={(_, checked) => toggleProvider(index, checked)}
+                  disabled={offline && name === EvalProviderName.LichessCloud}
+                />
+              }
+              label={EVAL_PROVIDER_LABELS[name]}
+              sx={{ marginX: 0 }}
+            />
+          </ListItem>
+        ))}
+
+        <ListItem disablePadding>
+          <FormControlLabel
+            control={<Checkbox size="small" checked disabled />}
+            label={EVAL_PROVIDER_LABELS[EvalProviderName.Engine]}
+            sx={{ marginX: 0 }}
+          />
+        </ListItem>
+      </List>
+
+      {isHttpEnabled && (
+        <TextField
+          fullWidth
+          size="small"
+          label="Evaluation server URL"
+          placeholder="http://localhost:8080/api/cloud-eval"
+          value={httpEndpoint}
+          onChange={(e) =>
+            setSettings({ ...settings, httpEndpoint: e.target.value.trim() })
+          }
+          helperText="The server must implement the Lichess cloud eval API. In offline mode, it is only used if it runs on localhost."
+        />
+      )}
+    </Grid>
+  );
+}
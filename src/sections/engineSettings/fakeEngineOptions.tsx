@@ -0,0 +1,75 @@
+import { Button, Grid2 as Grid, Typography } from "@mui/material";
+import { useState } from "react";
+import {
+  isFakeEngineFixtureImported,
+  setFakeEngineFixture,
+} from "@/lib/engine/fakeEngine";
+
+export default function FakeEngineOptions() {
+  const [fixtureName, setFixtureName] = useState(() =>
+    typeof window !== "undefined" && isFakeEngineFixtureImported()
+      ? "Imported fixture"
+      : "Default fixture"
+  );
+  const [error, setError] = useState("");
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    setError("");
+
+    try {
+      setFakeEngineFixture(await file.text());
+      setFixtureName(file.name);
+    } catch (error) {
+      console.error(error);
+      setError(error instanceof Error ? error.message : "Invalid fixture");
+    }
+  };
+
+  const handleReset = () => {
+    setFakeEngineFixture(null);
+    setFixtureName("Default fixture");
+    setError("");
+  };
+
+  return (
+    <Grid
+      container
+      justifyContent="center"
+      alignItems="center"
+      size={11}
+      rowGap={1}
+    >
+      <Grid container size={12}>
+        <Typography variant="body2">
+          The fake engine replays the output scripted for each position in a
+          JSON fixture. It is used the next time the engine is loaded.
+        </Typography>
+      </Grid>
+
+      <Grid container size={12} columnGap={2} rowGap={1} alignItems="center">
+        <Typography variant="body2" color="text.secondary" flexGrow={1}>
+          {fixtureName}
+        </Typography>
+        <Button variant="outlined" size="small" component="label">
+          Import fixture
+          <input
+            hidden
+            type="file"
+            accept=".json"
+            onChange={(e) => handleImport(e.target.files?.[0])}
+          />
+        </Button>
+        <Button size="small" onClick={handleReset}>
+          Reset
+        </Button>
+      </Grid>
+
+      {error && (
+        <Typography variant="body2" color="error">
+          {error}
+        </Typography>
+      )}
+    </Grid>
+  );
+}
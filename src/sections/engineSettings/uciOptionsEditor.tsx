@@ -0,0 +1,150 @@
+import {
+  Button,
+  Checkbox,
+  FormControl,
+  FormControlLabel,
+  Grid2 as Grid,
+  InputLabel,
+  MenuItem,
+  OutlinedInput,
+  Select,
+  TextField,
+  Typography,
+} from "@mui/material";
+import { useAtom, useAtomValue } from "jotai";
+import { engineOptionsAtom, engineOptionValuesAtom } from "../analysis/states";
+import {
+  isEditableUciOption,
+  isValidUciOptionValue,
+} from "@/lib/engine/helpers/uciOptions";
+import { EngineId, UciOption } from "@/types/engine";
+
+interface Props {
+  engineName: EngineId;
+}
+
+export default function UciOptionsEditor({ engineName }: Props) {
+  const engineOptions = useAtomValue(engineOptionsAtom);
+  const [engineOptionValues, setEngineOptionValues] = useAtom(
+    engineOptionValuesAtom
+  );
+
+  const options = engineOptions[engineName]?.filter(isEditableUciOption);
+  const values = engineOptionValues[engineName] ?? {};
+
+  const setValue = (option: UciOption, value: string) => {
+    const otherValues = Object.fromEntries(
+      Object.entries(values).filter(([name]) => name !== option.name)
+    );
+
+    setEngineOptionValues((prev) => ({
+      ...prev,
+      [engineName]:
+        value === option.default
+          ? otherValues
+          : { ...otherValues, [option.name]: value },
+    }));
+  };
+
+  const resetValues = () => {
+    setEngineOptionValues((prev) => ({ ...prev, [engineName]: {} }));
+  };
+
+  return (
+    <Grid
+      container
+      justifyContent="center"
+      alignItems="center"
+      size={11}
+      rowGap={2}
+    >
+      <Grid container justifyContent="space-between" size={12}>
+        <Typography variant="body2">
+          Engine options, applied to each analysis thread
+        </Typography>
+
+        <Button
+          size="small"
+          onClick={resetValues}
+          disabled={!Object.keys(values).length}
+        >
+          Reset to defaults
+        </Button>
+      </Grid>
+
+      {!options && (
+        <Typography variant="body2" color="text.secondary">
+          The options of this engine will be listed once it has been loaded
+        </Typography>
+      )}
+
+      {options?.map((option) => {
+        const value = values[option.name] ?? option.default ?? "";
+
+        switch (option.type) {
+          case "check":
+            return (
+              <Grid key={option.name} size={{ xs: 12, sm: 6 }}>
+                <FormControlLabel
+                  control={
+                    <Checkbox
+                      checked={value === "true"}
+                      onChange={(_, checked) =>
+                        setValue(option, checked ? "true" : "false")
+                      }
+                    />
+                  }
+                  label={option.name}
+                  sx={{ marginX: 0 }}
+                />
+              </Grid>
+            );
+          case "combo":
+            return (
+              <Grid key={option.name} size={{ xs: 12, sm: 6 }}>
+                <FormControl variant="outlined" size="small" fullWidth>
+                  <InputLabel id={`uci-option-${option.name}`}>
+                    {option.name}
+                  </InputLabel>
+                  <Select
+                    labelId={`uci-option-${option.name}`}
+                    input={<OutlinedInput label={option.name} />}
+                    value={value}
+                    onChange={(e) => setValue(option, e.target.value)}
+                  >
+                    {option.vars?.map((optionVar) => (
+                      <MenuItem key={optionVar} value={optionVar}>
+                        {optionVar}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              </Grid>
+            );
+          default:
+            return (
+              <Grid key={option.name} size={{ xs: 12, sm: 6 }}>
+                <TextField
+                  label={option.name}
+                  size="small"
+                  fullWidth
+                  type={option.type === "spin" ? "number" : "text"}
+                  value={value}
+                  onChange={(e) => setValue(option, e.target.value)}
+                  error={!isValidUciOptionValue(option, value)}
+                  helperText={
+                    option.type === "spin"
+                      ? `From ${option.min} to ${option.max}, default ${option.default}`
+                      : undefined
+                  }
+                  slotProps={{
+                    htmlInput: { min: option.min, max: option.max },
+                  }}
+                />
+              </Grid>
+            );
+        }
+      })}
+    </Grid>
+  );
+}
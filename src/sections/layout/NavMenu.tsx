@@ -19,6 +19,16 @@ const MenuOptions = [
     icon: "streamline:database",
     href: "/database",
   },
+  {
+    text: "Engine match",
+    icon: "mdi:sword-cross",
+    href: "/match",
+  },
+  {
+    text: "Benchmark",
+    icon: "mdi:speedometer",
+    href: "/benchmark",
+  },
 ];
 
 interface Props {
@@ -1,12 +1,25 @@
-import { CssBaseline, ThemeProvider, createTheme } from "@mui/material";
-import { PropsWithChildren, useMemo } from "react";
+import {
+  Alert,
+  CssBaseline,
+  Snackbar,
+  ThemeProvider,
+  createTheme,
+} from "@mui/material";
+import { PropsWithChildren, useEffect, useMemo } from "react";
 import NavBar from "./NavBar";
 import { red } from "@mui/material/colors";
 import { useLocalStorage } from "@/hooks/useLocalStorage";
 import { MAIN_THEME_COLOR } from "@/constants";
+import { useEngineError } from "@/hooks/useEngine";
+import { registerEngineCacheWorker } from "@/lib/engine/engineAssets";
 
 export default function Layout({ children }: PropsWithChildren) {
   const [isDarkMode, setDarkMode] = useLocalStorage("useDarkMode", true);
+  const [engineError, setEngineError] = useEngineError();
+
+  useEffect(() => {
+    registerEngineCacheWorker().catch(console.error);
+  }, []);
 
   const theme = useMemo(
     () =>
@@ -37,6 +50,17 @@ export default function Layout({ children }: PropsWithChildren) {
         switchDarkMode={() => setDarkMode((val) => !val)}
       />
       <main style={{ margin: "2vh 1vw" }}>{children}</main>
+
+      <Snackbar open={!!engineError}>
+        <Alert
+          onClose={() => setEngineError("")}
+          severity="error"
+          variant="filled"
+          sx={{ width: "100%" }}
+        >
+          {engineError}
+        </Alert>
+      </Snackbar>
     </ThemeProvider>
   );
 }
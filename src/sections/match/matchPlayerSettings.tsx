@@ -0,0 +1,150 @@
+import {
+  Checkbox,
+  FormControl,
+  FormControlLabel,
+  Grid2 as Grid,
+  InputLabel,
+  MenuItem,
+  OutlinedInput,
+  Select,
+  Typography,
+} from "@mui/material";
+import Slider from "@/components/slider";
+import { isEngineSupported } from "@/lib/engine/shared";
+import { useCustomEngines } from "@/hooks/useCustomEngines";
+import { EngineId, MatchPlayer } from "@/types/engine";
+import { EngineName } from "@/types/enums";
+import { ENGINE_LABELS } from "@/constants";
+
+export type MatchPlayerSettings = Omit<MatchPlayer, "name">;
+
+interface Props {
+  title: string;
+  player: MatchPlayerSettings;
+  setPlayer: (player: MatchPlayerSettings) => void;
+  disabled?: boolean;
+}
+
+export default function MatchPlayerSettingsForm({
+  title,
+  player,
+  setPlayer,
+  disabled,
+}: Props) {
+  const { customEngines } = useCustomEngines();
+  const selectId = `match-engine-${title}`;
+
+  return (
+    <Grid
+      container
+      justifyContent="center"
+      alignItems="center"
+      size={{ xs: 12, md: 6 }}
+      rowGap={2}
+    >
+      <Typography variant="h6" textAlign="center" width="100%">
+        {title}
+      </Typography>
+
+      <FormControl variant="outlined" disabled={disabled}>
+        <InputLabel id={selectId}>Engine</InputLabel>
+        <Select
+          labelId={selectId}
+          input={<OutlinedInput label="Engine" />}
+          value={player.engineName}
+          onChange={(e) =>
+            setPlayer({ ...player, engineName: e.target.value as EngineId })
+          }
+          sx={{ width: 280, maxWidth: "100%" }}
+        >
+          {Object.values(EngineName).map((engine) => (
+            <MenuItem
+              key={engine}
+              value={engine}
+              disabled={!isEngineSupported(engine)}
+            >
+              {ENGINE_LABELS[engine].full}
+            </MenuItem>
+          ))}
+          {customEngines.map((customEngine) => (
+            <MenuItem
+              key={customEngine.id}
+              value={customEngine.id}
+              disabled={!isEngineSupported(customEngine.id)}
+            >
+              {customEngine.name}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      <Grid container justifyContent="center" size={12}>
+        <FormControlLabel
+          control={
+            <Checkbox
+              checked={player.elo !== undefined}
+              disabled={disabled}
+              onChange={(_, checked) =>
+                setPlayer({ ...player, elo: checked ? 1500 : undefined })
+              }
+            />
+          }
+          label="Limit the strength to an Elo rating"
+          sx={{ marginX: 0 }}
+        />
+      </Grid>
+
+      {player.elo !== undefined && (
+        <Slider
+          label="Elo rating"
+          value={player.elo}
+          setValue={(elo) => setPlayer({ ...player, elo })}
+          min={1320}
+          max={3190}
+          step={10}
+          marksFilter={374}
+        />
+      )}
+
+      <Grid container justifyContent="center" size={12}>
+        <FormControlLabel
+          control={
+            <Checkbox
+              checked={player.movetime !== undefined}
+              disabled={disabled}
+              onChange={(_, checked) =>
+                setPlayer({
+                  ...player,
+                  depth: checked ? undefined : 12,
+                  movetime: checked ? 1000 : undefined,
+                })
+              }
+            />
+          }
+          label="Limit the time per move instead of the depth"
+          sx={{ marginX: 0 }}
+        />
+      </Grid>
+
+      {player.movetime !== undefined ? (
+        <Slider
+          label="Time per move (s)"
+          value={player.movetime / 1000}
+          setValue={(value) => setPlayer({ ...player, movetime: value * 1000 })}
+          min={0.1}
+          max={5}
+          step={0.1}
+        />
+      ) : (
+        <Slider
+          label="Depth"
+          value={player.depth ?? 12}
+          setValue={(depth) => setPlayer({ ...player, depth })}
+          min={1}
+          max={20}
+          marksFilter={2}
+        />
+      )}
+    </Grid>
+  );
+}
@@ -0,0 +1,90 @@
+import {
+  Grid2 as Grid,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from "@mui/material";
+import { Icon } from "@iconify/react";
+import { useRouter } from "next/router";
+import { getMatchScore } from "@/lib/engine/match";
+import { MatchGame } from "@/types/engine";
+
+interface Props {
+  games: MatchGame[];
+  playerNames: [string, string];
+}
+
+export default function MatchResults({ games, playerNames }: Props) {
+  const router = useRouter();
+
+  if (!games.length) return null;
+
+  const { gamesNb, wins, draws, losses, score, eloDifference, eloMargin } =
+    getMatchScore(games);
+
+  return (
+    <Grid container justifyContent="center" size={12} rowGap={2}>
+      <Typography variant="h6" textAlign="center" width="100%">
+        {playerNames[0]} {wins + draws / 2} - {losses + draws / 2}{" "}
+        {playerNames[1]}
+      </Typography>
+
+      <Typography variant="body2" textAlign="center" width="100%">
+        {wins} wins, {draws} draws and {losses} losses in {gamesNb} games, a
+        score of {(score * 100).toFixed(1)}%.{" "}
+        {eloDifference !== undefined
+          ? `Elo difference: ${formatEloDifference(eloDifference)}${
+              eloMargin !== undefined ? ` ± ${Math.round(eloMargin)}` : ""
+            }`
+          : "The Elo difference can't be estimated from a perfect score."}
+      </Typography>
+
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Round</TableCell>
+            <TableCell>White</TableCell>
+            <TableCell>Black</TableCell>
+            <TableCell>Opening</TableCell>
+            <TableCell align="center">Result</TableCell>
+            <TableCell>Termination</TableCell>
+            <TableCell align="center">Analyze</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {games.map((game) => (
+            <TableRow key={game.round}>
+              <TableCell>{game.round}</TableCell>
+              <TableCell>{playerNames[game.whitePlayerIndex]}</TableCell>
+              <TableCell>{playerNames[1 - game.whitePlayerIndex]}</TableCell>
+              <TableCell>{game.opening}</TableCell>
+              <TableCell align="center">{game.result}</TableCell>
+              <TableCell>{game.termination}</TableCell>
+              <TableCell align="center">
+                <IconButton
+                  size="small"
+                  disabled={game.gameId === undefined}
+                  onClick={() =>
+                    router.push({
+                      pathname: "/",
+                      query: { gameId: game.gameId },
+                    })
+                  }
+                >
+                  <Icon icon="streamline:magnifying-glass-solid" width="16px" />
+                </IconButton>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Grid>
+  );
+}
+
+const formatEloDifference = (eloDifference: number): string =>
+  `${eloDifference >= 0 ? "+" : ""}${Math.round(eloDifference)}`;
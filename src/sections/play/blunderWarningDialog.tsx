@@ -0,0 +1,42 @@
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Typography,
+} from "@mui/material";
+
+interface Props {
+  open: boolean;
+  onConfirm: () => void;
+  onClose: () => void;
+}
+
+export default function BlunderWarningDialog({
+  open,
+  onConfirm,
+  onClose,
+}: Props) {
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle marginY={1} variant="h5">
+        Are you sure ?
+      </DialogTitle>
+      <DialogContent sx={{ paddingBottom: 0 }}>
+        <Typography>
+          Your coach thinks this move is a blunder. Take another look at the
+          position before playing it.
+        </Typography>
+      </DialogContent>
+      <DialogActions sx={{ m: 2 }}>
+        <Button variant="outlined" sx={{ marginRight: 2 }} onClick={onConfirm}>
+          Play it anyway
+        </Button>
+        <Button variant="contained" onClick={onClose}>
+          Think again
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
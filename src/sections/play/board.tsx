@@ -6,16 +6,31 @@ import {
   isGameInProgressAtom,
   gameDataAtom,
   enginePlayNameAtom,
+  engineHumanLikeAtom,
+  botPersonalityIdAtom,
+  coachModeAtom,
+  hintMoveAtom,
 } from "./states";
 import { useChessActions } from "@/hooks/useChessActions";
-import { useEffect, useMemo } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useScreenSize } from "@/hooks/useScreenSize";
 import { useEngine } from "@/hooks/useEngine";
 import { uciMoveParams } from "@/lib/chess";
 import Board from "@/components/board";
+import { Color } from "@/types/enums";
 import { useGameData } from "@/hooks/useGameData";
 import { usePlayersData } from "@/hooks/usePlayersData";
-import { sleep } from "@/lib/helpers";
+import { isAbortError, sleep } from "@/lib/helpers";
+import {
+  DEFAULT_THINK_TIME_MS,
+  getBookMove,
+  getBotPersonality,
+  getThinkTimeMs,
+} from "@/lib/bots";
+import { getEngineMoveTimeMs } from "@/lib/clock";
+import { useGameClock } from "./hooks/useGameClock";
+import { useCoach } from "./hooks/useCoach";
+import BlunderWarningDialog from "./blunderWarningDialog";
 
 export default function BoardContainer() {
   const screenSize = useScreenSize();
@@ -26,12 +41,76 @@ export default function BoardContainer() {
   const playerColor = useAtomValue(playerColorAtom);
   const { playMove } = useChessActions(gameAtom);
   const engineElo = useAtomValue(engineEloAtom);
+  const isHumanLike = useAtomValue(engineHumanLikeAtom);
+  const botPersonality = getBotPersonality(useAtomValue(botPersonalityIdAtom));
   const isGameInProgress = useAtomValue(isGameInProgressAtom);
+  const { timeControl, clocksMs, getClockMs, getMoveComment } = useGameClock();
+  const { isBlunder } = useCoach();
+  const hintMove = useAtomValue(hintMoveAtom);
+  const [blunderMove, setBlunderMove] = useState<{
+    from: string;
+    to: string;
+    promotion?: string;
+  }>();
+  const [searchedMove, setSearchedMove] = useState<{
+    from: string;
+    to: string;
+    promotion?: string;
+    fen: string;
+    isBlunder: boolean;
+  }>();
 
   const gameFen = game.fen();
   const isGameFinished = game.isGameOver();
 
   useEffect(() => {
+    const abortController = new AbortController();
+
+    // With a clock, the engine thinks for a share of its remaining time
+    const clockMs = getClockMs(game.turn() as Color);
+    const moveTimeMs =
+      timeControl && clockMs !== undefined
+        ? getEngineMoveTimeMs(clockMs, timeControl)
+        : undefined;
+
+    const getEngineMove = async (): Promise<string | undefined> => {
+      if (!engine) return undefined;
+
+      // The moves from the starting position let the engine see repetitions
+      // and the fifty-move counter
+      const history = game.history({ verbose: true });
+      const gameHistory = {
+        startingFen: history[0]?.before ?? gameFen,
+        uciMoves: history.map(
+          (move) => move.from + move.to + (move.promotion || "")
+        ),
+      };
+
+      if (botPersonality) {
+        return (
+          getBookMove(botPersonality, game) ??
+          engine.getHumanLikeMove(gameFen, botPersonality.elo, {
+            ...gameHistory,
+            tacticalBias: botPersonality.tacticalBias,
+            signal: abortController.signal,
+          })
+        );
+      }
+
+      return isHumanLike
+        ? engine.getHumanLikeMove(gameFen, engineElo, {
+            ...gameHistory,
+            signal: abortController.signal,
+          })
+        : engine.getEngineNextMove(
+            gameFen,
+            engineElo,
+            moveTimeMs ? { movetime: moveTimeMs } : {},
+            abortController.signal,
+            gameHistory
+          );
+    };
+
     const playEngineMove = async () => {
       if (
         !engine?.getIsReady() ||
@@ -42,18 +121,25 @@ export default function BoardContainer() {
         return;
       }
 
-      const timePromise = sleep(1000);
-      const move = await engine.getEngineNextMove(gameFen, engineElo);
+      const thinkTimeMs = getThinkTimeMs(
+        botPersonality?.thinkTimeMs ?? DEFAULT_THINK_TIME_MS
+      );
+      const timePromise = sleep(Math.min(thinkTimeMs, moveTimeMs ?? Infinity));
+      const move = await getEngineMove();
       await timePromise;
 
-      if (move) playMove(uciMoveParams(move));
+      if (move && !abortController.signal.aborted) {
+        playMove({ ...uciMoveParams(move), comment: getMoveComment() });
+      }
     };
-    playEngineMove();
+    playEngineMove().catch((error) => {
+      if (!isAbortError(error)) throw error;
+    });
 
     return () => {
-      engine?.stopAllCurrentJobs();
+      abortController.abort();
     };
-  }, [gameFen, isGameInProgress]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [gameFen, isGameInProgress, engine]); // eslint-disable-line react-hooks/exhaustive-deps
 
   const boardSize = useMemo(() => {
     const width = screenSize.width;
@@ -69,16 +155,74 @@ export default function BoardContainer() {
 
   useGameData(gameAtom, gameDataAtom);
 
+  const shouldPlayMove = (move: {
+    from: string;
+    to: string;
+    promotion?: string;
+  }): boolean => {
+    const isMoveBlunder = isBlunder(move);
+    if (isMoveBlunder === false) return true;
+
+    if (isMoveBlunder === true) {
+      setBlunderMove(move);
+    } else {
+      isMoveBlunder.then((isSearchedMoveBlunder) =>
+        setSearchedMove({
+          ...move,
+          fen: gameFen,
+          isBlunder: isSearchedMoveBlunder,
+        })
+      );
+    }
+    return false;
+  };
+
+  // A move that had to be searched is played once it is known not to be a
+  // blunder, if the position has not changed in the meantime
+  useEffect(() => {
+    if (!searchedMove) return;
+    setSearchedMove(undefined);
+
+    const { fen, isBlunder: isSearchedMoveBlunder, ...move } = searchedMove;
+    if (fen !== gameFen || !isGameInProgress) return;
+
+    if (isSearchedMoveBlunder) {
+      setBlunderMove(move);
+    } else {
+      playMove({ ...move, comment: getMoveComment() });
+    }
+  }, [searchedMove]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const handleBlunderConfirm = () => {
+    if (blunderMove && isGameInProgress) {
+      playMove({ ...blunderMove, comment: getMoveComment() });
+    }
+    setBlunderMove(undefined);
+  };
+
   return (
-    <Board
-      id="PlayBoard"
-      canPlay={isGameInProgress ? playerColor : false}
-      gameAtom={gameAtom}
-      boardSize={boardSize}
-      whitePlayer={white}
-      blackPlayer={black}
-      boardOrientation={playerColor}
-      currentPositionAtom={gameDataAtom}
-    />
+    <>
+      <Board
+        id="PlayBoard"
+        canPlay={isGameInProgress ? playerColor : false}
+        gameAtom={gameAtom}
+        boardSize={boardSize}
+        whitePlayer={white}
+        blackPlayer={black}
+        boardOrientation={playerColor}
+        currentPositionAtom={gameDataAtom}
+        clocksMs={clocksMs}
+        getMoveComment={getMoveComment}
+        hintMove={hintMove}
+        showPlayerMoveIconAtom={coachModeAtom}
+        shouldPlayMove={shouldPlayMove}
+      />
+
+      <BlunderWarningDialog
+        open={!!blunderMove}
+        onConfirm={handleBlunderConfirm}
+        onClose={() => setBlunderMove(undefined)}
+      />
+    </>
   );
 }
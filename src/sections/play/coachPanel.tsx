@@ -0,0 +1,82 @@
+import { Button, Grid2 as Grid, Stack } from "@mui/material";
+import { useAtom, useAtomValue } from "jotai";
+import Image from "next/image";
+import {
+  coachEvalAtom,
+  coachFeedbackAtom,
+  coachHintsLeftAtom,
+  coachModeAtom,
+  gameAtom,
+  hintMoveAtom,
+  playerColorAtom,
+} from "./states";
+import PrettyMoveSan from "@/components/prettyMoveSan";
+import { MOVE_CLASSIFICATION_LABELS } from "@/constants";
+
+export default function CoachPanel() {
+  const game = useAtomValue(gameAtom);
+  const playerColor = useAtomValue(playerColorAtom);
+  const isCoachMode = useAtomValue(coachModeAtom);
+  const coachEval = useAtomValue(coachEvalAtom);
+  const coachFeedback = useAtomValue(coachFeedbackAtom);
+  const [hintsLeft, setHintsLeft] = useAtom(coachHintsLeftAtom);
+  const [hintMove, setHintMove] = useAtom(hintMoveAtom);
+
+  if (!isCoachMode) return null;
+
+  const gameFen = game.fen();
+  const bestMove =
+    coachEval?.fen === gameFen
+      ? coachEval.positionEval.lines[0]?.pv[0]
+      : undefined;
+
+  const handleHint = () => {
+    if (!bestMove || hintsLeft <= 0) return;
+
+    setHintMove(bestMove);
+    setHintsLeft((prev) => prev - 1);
+  };
+
+  return (
+    <Grid
+      container
+      justifyContent="center"
+      alignItems="center"
+      rowGap={2}
+      size={12}
+    >
+      {coachFeedback && (
+        <Stack direction="row" alignItems="center" spacing={1}>
+          <Image
+            src={`/icons/${coachFeedback.moveClassification}.png`}
+            alt="move-icon"
+            width={16}
+            height={16}
+          />
+
+          <PrettyMoveSan
+            typographyProps={{
+              fontSize: "0.9rem",
+            }}
+            san={coachFeedback.san}
+            color={playerColor}
+            additionalText={
+              " is " +
+              MOVE_CLASSIFICATION_LABELS[coachFeedback.moveClassification]
+            }
+          />
+        </Stack>
+      )}
+
+      <Grid container justifyContent="center" alignItems="center" size={12}>
+        <Button
+          variant="outlined"
+          onClick={handleHint}
+          disabled={!bestMove || hintsLeft <= 0 || !!hintMove}
+        >
+          Hint ({hintsLeft} left)
+        </Button>
+      </Grid>
+    </Grid>
+  );
+}
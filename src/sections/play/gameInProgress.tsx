@@ -8,10 +8,13 @@ import { useAtom, useAtomValue } from "jotai";
 import { gameAtom, isGameInProgressAtom } from "./states";
 import { useEffect } from "react";
 import UndoMoveButton from "./undoMoveButton";
+import CoachPanel from "./coachPanel";
+import { useSaveUnfinishedGame } from "./hooks/useUnfinishedGames";
 
 export default function GameInProgress() {
   const game = useAtomValue(gameAtom);
   const [isGameInProgress, setIsGameInProgress] = useAtom(isGameInProgressAtom);
+  useSaveUnfinishedGame();
 
   useEffect(() => {
     if (game.isGameOver()) setIsGameInProgress(false);
@@ -42,6 +45,8 @@ export default function GameInProgress() {
         <CircularProgress size={20} color="info" />
       </Grid>
 
+      <CoachPanel />
+
       <Grid container justifyContent="center" alignItems="center" size={12}>
         <UndoMoveButton />
       </Grid>
@@ -1,8 +1,14 @@
 import { useAtomValue } from "jotai";
-import { gameAtom, isGameInProgressAtom, playerColorAtom } from "./states";
+import {
+  flaggedColorAtom,
+  gameAtom,
+  isGameInProgressAtom,
+  playerColorAtom,
+} from "./states";
 import { Button, Grid2 as Grid, Typography } from "@mui/material";
 import { Color } from "@/types/enums";
 import { setGameHeaders } from "@/lib/chess";
+import { canWinOnTime } from "@/lib/clock";
 import { useGameDatabase } from "@/hooks/useGameDatabase";
 import { useRouter } from "next/router";
 
@@ -10,6 +16,7 @@ export default function GameRecap() {
   const game = useAtomValue(gameAtom);
   const playerColor = useAtomValue(playerColorAtom);
   const isGameInProgress = useAtomValue(isGameInProgressAtom);
+  const flaggedColor = useAtomValue(flaggedColorAtom);
   const { addGame } = useGameDatabase();
   const router = useRouter();
 
@@ -25,13 +32,24 @@ export default function GameRecap() {
     if (game.isStalemate()) return "Draw by stalemate";
     if (game.isThreefoldRepetition()) return "Draw by threefold repetition";
     if (game.isDraw()) return "Draw by fifty-move rule";
+    if (flaggedColor) {
+      const winnerColor =
+        flaggedColor === Color.White ? Color.Black : Color.White;
+      if (!canWinOnTime(game.fen(), winnerColor)) {
+        return "Draw by timeout vs insufficient material";
+      }
+
+      const winnerLabel = winnerColor === playerColor ? "You" : "Stockfish";
+      return `${winnerLabel} won on time !`;
+    }
 
     return "You resigned";
   };
 
   const handleOpenGameAnalysis = async () => {
     const gameToAnalysis = setGameHeaders(game, {
-      resigned: !game.isGameOver() ? playerColor : undefined,
+      resigned: !game.isGameOver() && !flaggedColor ? playerColor : undefined,
+      timeout: !game.isGameOver() ? flaggedColor : undefined,
     });
     const gameId = await addGame(gameToAnalysis);
 
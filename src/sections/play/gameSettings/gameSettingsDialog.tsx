@@ -26,14 +26,38 @@ import {
   isGameInProgressAtom,
   gameAtom,
   enginePlayNameAtom,
+  engineHumanLikeAtom,
+  botPersonalityIdAtom,
+  timeControlIdAtom,
+  flaggedColorAtom,
+  unfinishedGameIdAtom,
+  coachModeAtom,
+  coachBlunderWarningAtom,
+  coachHintsLeftAtom,
+  coachFeedbackAtom,
 } from "../states";
 import { useChessActions } from "@/hooks/useChessActions";
 import { logAnalyticsEvent } from "@/lib/firebase";
 import { useEffect, useState } from "react";
-import { isEngineSupported } from "@/lib/engine/shared";
+import { getEngineLabel, isEngineSupported } from "@/lib/engine/shared";
+import { useCustomEngines } from "@/hooks/useCustomEngines";
+import { EngineId } from "@/types/engine";
 import { Stockfish16_1 } from "@/lib/engine/stockfish16_1";
-import { DEFAULT_ENGINE, ENGINE_LABELS, STRONGEST_ENGINE } from "@/constants";
+import {
+  DEFAULT_ENGINE,
+  ENGINE_LABELS,
+  STRONGEST_ENGINE,
+  TIME_CONTROLS,
+} from "@/constants";
 import { getGameFromPgn } from "@/lib/chess";
+import { HUMAN_LIKE_MIN_ELO } from "@/lib/engine/helpers/humanLikeMove";
+import { getBookOpeningNames, getBotPersonality } from "@/lib/bots";
+import { BOT_PERSONALITIES } from "@/data/botPersonalities";
+import { getTimeControlLabel } from "@/lib/clock";
+import { COACH_HINTS_NB } from "@/lib/engine/helpers/coach";
+
+// Lowest rating of the engine's own strength limit
+const ENGINE_MIN_ELO = 1320;
 
 interface Props {
   open: boolean;
@@ -49,11 +73,41 @@ export default function GameSettingsDialog({ open, onClose }: Props) {
     "engine-play-name",
     enginePlayNameAtom
   );
+  const [isHumanLike, setIsHumanLike] = useAtomLocalStorage(
+    "engine-human-like",
+    engineHumanLikeAtom
+  );
+  const [botPersonalityId, setBotPersonalityId] = useAtomLocalStorage(
+    "bot-personality",
+    botPersonalityIdAtom
+  );
+  const [timeControlId, setTimeControlId] = useAtomLocalStorage(
+    "time-control",
+    timeControlIdAtom
+  );
+  const [isCoachMode, setIsCoachMode] = useAtomLocalStorage(
+    "coach-mode",
+    coachModeAtom
+  );
+  const [isBlunderWarning, setIsBlunderWarning] = useAtomLocalStorage(
+    "coach-blunder-warning",
+    coachBlunderWarningAtom
+  );
+  const setCoachHintsLeft = useSetAtom(coachHintsLeftAtom);
+  const setCoachFeedback = useSetAtom(coachFeedbackAtom);
   const [playerColor, setPlayerColor] = useAtom(playerColorAtom);
+  const setFlaggedColor = useSetAtom(flaggedColorAtom);
+  const setUnfinishedGameId = useSetAtom(unfinishedGameIdAtom);
   const setIsGameInProgress = useSetAtom(isGameInProgressAtom);
   const { reset: resetGame } = useChessActions(gameAtom);
   const [startingPositionInput, setStartingPositionInput] = useState("");
   const [parsingError, setParsingError] = useState("");
+  const { customEngines } = useCustomEngines();
+
+  const botPersonality = getBotPersonality(botPersonalityId);
+  const botName =
+    botPersonality?.name ?? getEngineLabel(engineName, customEngines);
+  const botElo = botPersonality?.elo ?? engineElo;
 
   const handleGameStart = () => {
     setParsingError("");
@@ -66,20 +120,15 @@ export default function GameSettingsDialog({ open, onClose }: Props) {
 
       resetGame({
         white: {
-          name:
-            playerColor === Color.White
-              ? "You"
-              : ENGINE_LABELS[engineName].small,
-          rating: playerColor === Color.White ? undefined : engineElo,
+          name: playerColor === Color.White ? "You" : botName,
+          rating: playerColor === Color.White ? undefined : botElo,
         },
         black: {
-          name:
-            playerColor === Color.Black
-              ? "You"
-              : ENGINE_LABELS[engineName].small,
-          rating: playerColor === Color.Black ? undefined : engineElo,
+          name: playerColor === Color.Black ? "You" : botName,
+          rating: playerColor === Color.Black ? undefined : botElo,
         },
         fen: startingFen,
+        timeControl: timeControlId || undefined,
       });
     } catch (error) {
       console.error(error);
@@ -91,13 +140,21 @@ export default function GameSettingsDialog({ open, onClose }: Props) {
       return;
     }
 
+    setFlaggedColor(undefined);
+    setUnfinishedGameId(crypto.randomUUID());
+    setCoachHintsLeft(COACH_HINTS_NB);
+    setCoachFeedback(undefined);
     setIsGameInProgress(true);
     handleClose();
 
     logAnalyticsEvent("play_game", {
       engine: engineName,
-      engineElo,
+      engineElo: botElo,
+      isHumanLike,
+      botPersonality: botPersonalityId || undefined,
       playerColor,
+      timeControl: timeControlId || undefined,
+      isCoachMode,
     });
   };
 
@@ -111,6 +168,13 @@ export default function GameSettingsDialog({ open, onClose }: Props) {
     }
   }, [setEngineName, engineName]);
 
+  const minElo = isHumanLike ? HUMAN_LIKE_MIN_ELO : ENGINE_MIN_ELO;
+
+  const handleHumanLikeChange = (checked: boolean) => {
+    setIsHumanLike(checked);
+    if (!checked && engineElo < ENGINE_MIN_ELO) setEngineElo(ENGINE_MIN_ELO);
+  };
+
   const handleClose = () => {
     onClose();
     setStartingPositionInput("");
@@ -147,7 +211,7 @@ export default function GameSettingsDialog({ open, onClose }: Props) {
                 displayEmpty
                 input={<OutlinedInput label="Engine" />}
                 value={engineName}
-                onChange={(e) => setEngineName(e.target.value as EngineName)}
+                onChange={(e) => setEngineName(e.target.value as EngineId)}
                 sx={{ width: 280, maxWidth: "100%" }}
               >
                 {Object.values(EngineName).map((engine) => (
@@ -159,19 +223,96 @@ export default function GameSettingsDialog({ open, onClose }: Props) {
                     {ENGINE_LABELS[engine].full}
                   </MenuItem>
                 ))}
+                {customEngines.map((customEngine) => (
+                  <MenuItem
+                    key={customEngine.id}
+                    value={customEngine.id}
+                    disabled={!isEngineSupported(customEngine.id)}
+                  >
+                    {customEngine.name}
+                  </MenuItem>
+                ))}
               </Select>
             </FormControl>
           </Grid>
 
-          <Slider
-            label="Bot Elo rating"
-            value={engineElo}
-            setValue={setEngineElo}
-            min={1320}
-            max={3190}
-            step={10}
-            marksFilter={374}
-          />
+          <Grid container justifyContent="center" size={12}>
+            <FormControl variant="outlined">
+              <InputLabel id="dialog-personality-label">Bot</InputLabel>
+              <Select
+                labelId="dialog-personality-label"
+                displayEmpty
+                input={<OutlinedInput label="Bot" />}
+                value={botPersonalityId}
+                onChange={(e) => setBotPersonalityId(e.target.value)}
+                sx={{ width: 280, maxWidth: "100%" }}
+              >
+                <MenuItem value="">Engine with a set Elo rating</MenuItem>
+                {BOT_PERSONALITIES.map((personality) => (
+                  <MenuItem key={personality.id} value={personality.id}>
+                    {personality.name} ({personality.elo})
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
+
+          {botPersonality && (
+            <Typography variant="body2" textAlign="center">
+              {botPersonality.description} Favorite openings:{" "}
+              {getBookOpeningNames(botPersonality).join(", ")}.
+            </Typography>
+          )}
+
+          {!botPersonality && (
+            <Grid container justifyContent="center" size={12}>
+              <FormControlLabel
+                control={
+                  <Switch
+                    color="default"
+                    checked={isHumanLike}
+                    onChange={(e) => handleHumanLikeChange(e.target.checked)}
+                  />
+                }
+                label={`Human-like bot, from ${HUMAN_LIKE_MIN_ELO} Elo, that sometimes picks weaker moves`}
+              />
+            </Grid>
+          )}
+
+          {!botPersonality && (
+            <Slider
+              label="Bot Elo rating"
+              value={Math.max(engineElo, minElo)}
+              setValue={setEngineElo}
+              min={minElo}
+              max={3190}
+              step={10}
+              marksFilter={isHumanLike ? 465 : 374}
+            />
+          )}
+
+          <Grid container justifyContent="center" size={12}>
+            <FormControl variant="outlined">
+              <InputLabel id="dialog-time-control-label">
+                Time control
+              </InputLabel>
+              <Select
+                labelId="dialog-time-control-label"
+                displayEmpty
+                input={<OutlinedInput label="Time control" />}
+                value={timeControlId}
+                onChange={(e) => setTimeControlId(e.target.value)}
+                sx={{ width: 280, maxWidth: "100%" }}
+              >
+                <MenuItem value="">No clock</MenuItem>
+                {TIME_CONTROLS.map((timeControl) => (
+                  <MenuItem key={timeControl.id} value={timeControl.id}>
+                    {timeControl.category} {getTimeControlLabel(timeControl)}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Grid>
 
           <FormGroup>
             <FormControlLabel
@@ -194,6 +335,34 @@ export default function GameSettingsDialog({ open, onClose }: Props) {
             />
           </FormGroup>
 
+          <Grid container justifyContent="center" size={12}>
+            <FormControlLabel
+              control={
+                <Switch
+                  color="default"
+                  checked={isCoachMode}
+                  onChange={(e) => setIsCoachMode(e.target.checked)}
+                />
+              }
+              label={`Coach that rates your moves and gives you ${COACH_HINTS_NB} hints per game`}
+            />
+          </Grid>
+
+          {isCoachMode && (
+            <Grid container justifyContent="center" size={12}>
+              <FormControlLabel
+                control={
+                  <Switch
+                    color="default"
+                    checked={isBlunderWarning}
+                    onChange={(e) => setIsBlunderWarning(e.target.checked)}
+                  />
+                }
+                label="Warn me before I play a blunder"
+              />
+            </Grid>
+          )}
+
           <FormControl fullWidth>
             <TextField
               label="Optional starting position (FEN or PGN)"
@@ -0,0 +1,200 @@
+import {
+  coachBlunderWarningAtom,
+  coachEvalAtom,
+  coachFeedbackAtom,
+  coachModeAtom,
+  gameAtom,
+  gameDataAtom,
+  hintMoveAtom,
+  isGameInProgressAtom,
+  playerColorAtom,
+} from "../states";
+import { engineNameAtom } from "@/sections/analysis/states";
+import { useAtom, useAtomValue, useSetAtom } from "jotai";
+import { useCallback, useEffect, useRef } from "react";
+import { Chess } from "chess.js";
+import { useEngine } from "@/hooks/useEngine";
+import { useAtomLocalStorage } from "@/hooks/useAtomLocalStorage";
+import {
+  COACH_DEPTH,
+  getCoachMoveEval,
+  getCoachMultiPv,
+} from "@/lib/engine/helpers/coach";
+import { isAbortError } from "@/lib/helpers";
+import { DEFAULT_EVAL_PROVIDERS_SETTINGS } from "@/constants";
+import { MoveClassification } from "@/types/enums";
+import { LineEval, PositionEval } from "@/types/eval";
+
+// The coach evaluates the positions of the player with the analysis engine,
+// while the bot plays with its own engine
+export const useCoach = () => {
+  const game = useAtomValue(gameAtom);
+  const playerColor = useAtomValue(playerColorAtom);
+  const isGameInProgress = useAtomValue(isGameInProgressAtom);
+  const isCoachMode = useAtomValue(coachModeAtom);
+  const isBlunderWarning = useAtomValue(coachBlunderWarningAtom);
+  const [engineName] = useAtomLocalStorage("engine-name", engineNameAtom);
+  const engine = useEngine(isCoachMode ? engineName : undefined);
+  const [coachEval, setCoachEval] = useAtom(coachEvalAtom);
+  const setCoachFeedback = useSetAtom(coachFeedbackAtom);
+  const setGameData = useSetAtom(gameDataAtom);
+  const setHintMove = useSetAtom(hintMoveAtom);
+  const evalsRef = useRef(new Map<string, Promise<PositionEval>>());
+  const playedMoveLinesRef = useRef(new Map<string, Promise<LineEval>>());
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const gameFen = game.fen();
+  const isCoachActive = isCoachMode && isGameInProgress;
+
+  useEffect(() => {
+    if (!isCoachActive || !engine) return;
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    return () => {
+      abortController.abort();
+      abortControllerRef.current = null;
+      evalsRef.current = new Map();
+      playedMoveLinesRef.current = new Map();
+      setCoachEval(undefined);
+    };
+  }, [isCoachActive, engine, setCoachEval]);
+
+  // Moves outside of the engine lines are searched on their own, once
+  const getPlayedMoveLine = useCallback(
+    (fen: string, uciMove: string): Promise<LineEval> => {
+      const signal = abortControllerRef.current?.signal;
+      if (!engine || !signal) {
+        return Promise.reject(new Error("The coach is not active"));
+      }
+
+      const key = `${fen} ${uciMove}`;
+      const storedLine = playedMoveLinesRef.current.get(key);
+      if (storedLine) return storedLine;
+
+      const playedMoveLine = engine
+        .evaluatePositionWithUpdate({
+          fen,
+          depth: COACH_DEPTH,
+          searchMoves: [uciMove],
+          signal,
+        })
+        .then((playedMoveEval) => playedMoveEval.lines[0]);
+      playedMoveLinesRef.current.set(key, playedMoveLine);
+      playedMoveLine.catch(() => playedMoveLinesRef.current.delete(key));
+
+      return playedMoveLine;
+    },
+    [engine]
+  );
+
+  useEffect(() => {
+    setHintMove(undefined);
+    const signal = abortControllerRef.current?.signal;
+    if (!isCoachActive || !engine?.getIsReady() || !signal) return;
+
+    // Positions are evaluated once, as the player can take moves back
+    const getPositionEval = (fen: string): Promise<PositionEval> => {
+      const storedEval = evalsRef.current.get(fen);
+      if (storedEval) return storedEval;
+
+      const positionEval = engine.evaluatePositionWithUpdate({
+        fen,
+        depth: COACH_DEPTH,
+        multiPv: getCoachMultiPv(fen),
+        evalProviders: { ...DEFAULT_EVAL_PROVIDERS_SETTINGS, providers: [] },
+        signal,
+      });
+      evalsRef.current.set(fen, positionEval);
+      positionEval.catch(() => evalsRef.current.delete(fen));
+
+      return positionEval;
+    };
+
+    const handleError = (error: unknown) => {
+      if (!isAbortError(error)) console.error(error);
+    };
+
+    if (game.turn() === playerColor) {
+      if (game.isGameOver()) return;
+
+      getPositionEval(gameFen)
+        .then((positionEval) => setCoachEval({ fen: gameFen, positionEval }))
+        .catch(handleError);
+      return;
+    }
+
+    const lastMove = game.history({ verbose: true }).at(-1);
+    if (!lastMove) return;
+
+    const uciMove = lastMove.from + lastMove.to + (lastMove.promotion ?? "");
+    getPositionEval(lastMove.before)
+      .then(async (positionEval) => {
+        const isMoveInLines = positionEval.lines.some(
+          (line) => line.pv[0] === uciMove
+        );
+        const playedMoveLine = isMoveInLines
+          ? undefined
+          : await getPlayedMoveLine(lastMove.before, uciMove);
+
+        const moveEval = getCoachMoveEval(
+          positionEval,
+          lastMove.before,
+          uciMove,
+          playedMoveLine
+        );
+        if (!moveEval?.moveClassification) return;
+
+        setCoachFeedback({
+          san: lastMove.san,
+          moveClassification: moveEval.moveClassification,
+        });
+        setGameData((prev) =>
+          prev.lastMove?.after === lastMove.after
+            ? { ...prev, eval: moveEval }
+            : prev
+        );
+      })
+      .catch(handleError);
+  }, [gameFen, isCoachActive, engine]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Only the moves of positions already evaluated can be checked. A move
+  // outside of the engine lines is searched on its own first, so it is only
+  // known later whether it is a blunder.
+  const isBlunder = useCallback(
+    (move: {
+      from: string;
+      to: string;
+      promotion?: string;
+    }): boolean | Promise<boolean> => {
+      if (!isCoachActive || !isBlunderWarning || coachEval?.fen !== gameFen) {
+        return false;
+      }
+
+      let uciMove: string;
+      try {
+        const { from, to, promotion } = new Chess(gameFen).move(move);
+        uciMove = from + to + (promotion ?? "");
+      } catch {
+        return false;
+      }
+
+      const { positionEval } = coachEval;
+      const isMoveBlunder = (playedMoveLine?: LineEval) =>
+        getCoachMoveEval(positionEval, gameFen, uciMove, playedMoveLine)
+          ?.moveClassification === MoveClassification.Blunder;
+
+      if (positionEval.lines.some((line) => line.pv[0] === uciMove)) {
+        return isMoveBlunder();
+      }
+
+      return getPlayedMoveLine(gameFen, uciMove)
+        .then(isMoveBlunder)
+        .catch(() => false);
+    },
+    [isCoachActive, isBlunderWarning, coachEval, gameFen, getPlayedMoveLine]
+  );
+
+  return { isBlunder };
+};
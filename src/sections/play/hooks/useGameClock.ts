@@ -0,0 +1,92 @@
+import {
+  flaggedColorAtom,
+  gameAtom,
+  isGameInProgressAtom,
+  timeControlIdAtom,
+} from "../states";
+import { useAtom, useAtomValue, useSetAtom } from "jotai";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { Color } from "@/types/enums";
+import { getClockComment, getGameClockMs, getTimeControl } from "@/lib/clock";
+
+const CLOCK_REFRESH_MS = 100;
+
+export const useGameClock = () => {
+  const game = useAtomValue(gameAtom);
+  const isGameInProgress = useAtomValue(isGameInProgressAtom);
+  const setIsGameInProgress = useSetAtom(isGameInProgressAtom);
+  const [flaggedColor, setFlaggedColor] = useAtom(flaggedColorAtom);
+  const timeControl = getTimeControl(useAtomValue(timeControlIdAtom));
+  const turnStartedAtRef = useRef(Date.now());
+  const [now, setNow] = useState(Date.now());
+
+  const gameFen = game.fen();
+  const turn = game.turn() as Color;
+  const isClockRunning =
+    !!timeControl && isGameInProgress && !game.isGameOver();
+
+  // Clocks as they were when the last move was played
+  const moveClocksMs = useMemo(
+    () =>
+      timeControl && {
+        [Color.White]: getGameClockMs(game, Color.White, timeControl),
+        [Color.Black]: getGameClockMs(game, Color.Black, timeControl),
+      },
+    [game, timeControl]
+  );
+
+  useEffect(() => {
+    turnStartedAtRef.current = Date.now();
+    setNow(Date.now());
+  }, [gameFen, isGameInProgress]);
+
+  useEffect(() => {
+    if (!isClockRunning) return;
+
+    const interval = setInterval(() => setNow(Date.now()), CLOCK_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [isClockRunning]);
+
+  const getClockMs = useCallback(
+    (color: Color, time: number = Date.now()): number | undefined => {
+      if (!moveClocksMs) return undefined;
+      if (!isGameInProgress && color === flaggedColor) return 0;
+      if (!isClockRunning || color !== turn) return moveClocksMs[color];
+
+      const elapsedMs = Math.max(time - turnStartedAtRef.current, 0);
+      return Math.max(moveClocksMs[color] - elapsedMs, 0);
+    },
+    [moveClocksMs, isGameInProgress, flaggedColor, isClockRunning, turn]
+  );
+
+  const turnClockMs = getClockMs(turn, now);
+
+  useEffect(() => {
+    if (!isClockRunning || turnClockMs === undefined || turnClockMs > 0) {
+      return;
+    }
+
+    setFlaggedColor(turn);
+    setIsGameInProgress(false);
+  }, [isClockRunning, turnClockMs, turn, setFlaggedColor, setIsGameInProgress]);
+
+  // Clock of the side to move once its move is played, with its increment
+  const getMoveComment = useCallback((): string | undefined => {
+    const clockMs = getClockMs(turn);
+    if (!timeControl || !isClockRunning || clockMs === undefined) {
+      return undefined;
+    }
+
+    return getClockComment(clockMs + timeControl.incrementMs);
+  }, [getClockMs, timeControl, isClockRunning, turn]);
+
+  return {
+    timeControl,
+    clocksMs: moveClocksMs && {
+      [Color.White]: getClockMs(Color.White, now) ?? 0,
+      [Color.Black]: getClockMs(Color.Black, now) ?? 0,
+    },
+    getClockMs,
+    getMoveComment,
+  };
+};
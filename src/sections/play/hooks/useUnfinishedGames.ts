@@ -0,0 +1,156 @@
+import {
+  botPersonalityIdAtom,
+  coachFeedbackAtom,
+  coachHintsLeftAtom,
+  engineEloAtom,
+  engineHumanLikeAtom,
+  enginePlayNameAtom,
+  flaggedColorAtom,
+  gameAtom,
+  isGameInProgressAtom,
+  playerColorAtom,
+  timeControlIdAtom,
+  unfinishedGameIdAtom,
+} from "../states";
+import { atom, useAtom, useAtomValue, useSetAtom } from "jotai";
+import { useCallback, useEffect } from "react";
+import {
+  getUnfinishedGames,
+  isUnfinishedGamesStorageAvailable,
+  removeUnfinishedGame,
+  saveUnfinishedGame,
+} from "@/lib/unfinishedGames";
+import { getGameFromPgn } from "@/lib/chess";
+import { COACH_HINTS_NB } from "@/lib/engine/helpers/coach";
+import { Color } from "@/types/enums";
+import { UnfinishedGame } from "@/types/game";
+
+const unfinishedGamesAtom = atom<UnfinishedGame[]>([]);
+
+export const useUnfinishedGames = () => {
+  const [unfinishedGames, setUnfinishedGames] = useAtom(unfinishedGamesAtom);
+  const setGame = useSetAtom(gameAtom);
+  const setPlayerColor = useSetAtom(playerColorAtom);
+  const setEngineName = useSetAtom(enginePlayNameAtom);
+  const setEngineElo = useSetAtom(engineEloAtom);
+  const setIsHumanLike = useSetAtom(engineHumanLikeAtom);
+  const setBotPersonalityId = useSetAtom(botPersonalityIdAtom);
+  const setTimeControlId = useSetAtom(timeControlIdAtom);
+  const setFlaggedColor = useSetAtom(flaggedColorAtom);
+  const setUnfinishedGameId = useSetAtom(unfinishedGameIdAtom);
+  const setCoachHintsLeft = useSetAtom(coachHintsLeftAtom);
+  const setCoachFeedback = useSetAtom(coachFeedbackAtom);
+  const setIsGameInProgress = useSetAtom(isGameInProgressAtom);
+
+  const loadUnfinishedGames = useCallback(async () => {
+    if (!isUnfinishedGamesStorageAvailable()) return;
+
+    try {
+      setUnfinishedGames(await getUnfinishedGames());
+    } catch (error) {
+      console.error(error);
+    }
+  }, [setUnfinishedGames]);
+
+  useEffect(() => {
+    loadUnfinishedGames();
+  }, [loadUnfinishedGames]);
+
+  const removeGame = useCallback(
+    async (id: string) => {
+      try {
+        await removeUnfinishedGame(id);
+      } catch (error) {
+        console.error(error);
+      }
+      await loadUnfinishedGames();
+    },
+    [loadUnfinishedGames]
+  );
+
+  // The clock of the side to move restarts from the time it had after its
+  // last move
+  const resumeGame = useCallback(
+    (unfinishedGame: UnfinishedGame) => {
+      setGame(getGameFromPgn(unfinishedGame.pgn));
+      setPlayerColor(unfinishedGame.playerColor);
+      setEngineName(unfinishedGame.engineName);
+      setEngineElo(unfinishedGame.engineElo);
+      setIsHumanLike(unfinishedGame.isHumanLike);
+      setBotPersonalityId(unfinishedGame.botPersonalityId);
+      setTimeControlId(unfinishedGame.timeControlId);
+      setFlaggedColor(undefined);
+      setUnfinishedGameId(unfinishedGame.id);
+      setCoachHintsLeft(unfinishedGame.coachHintsLeft ?? COACH_HINTS_NB);
+      setCoachFeedback(undefined);
+      setIsGameInProgress(true);
+    },
+    [
+      setGame,
+      setPlayerColor,
+      setEngineName,
+      setEngineElo,
+      setIsHumanLike,
+      setBotPersonalityId,
+      setTimeControlId,
+      setFlaggedColor,
+      setUnfinishedGameId,
+      setCoachHintsLeft,
+      setCoachFeedback,
+      setIsGameInProgress,
+    ]
+  );
+
+  return { unfinishedGames, removeGame, resumeGame };
+};
+
+// Saves the game in progress after each move and each hint, and forgets it
+// once it is over
+export const useSaveUnfinishedGame = () => {
+  const game = useAtomValue(gameAtom);
+  const playerColor = useAtomValue(playerColorAtom);
+  const engineName = useAtomValue(enginePlayNameAtom);
+  const engineElo = useAtomValue(engineEloAtom);
+  const isHumanLike = useAtomValue(engineHumanLikeAtom);
+  const botPersonalityId = useAtomValue(botPersonalityIdAtom);
+  const timeControlId = useAtomValue(timeControlIdAtom);
+  const coachHintsLeft = useAtomValue(coachHintsLeftAtom);
+  const isGameInProgress = useAtomValue(isGameInProgressAtom);
+  const [unfinishedGameId, setUnfinishedGameId] = useAtom(unfinishedGameIdAtom);
+  const setUnfinishedGames = useSetAtom(unfinishedGamesAtom);
+
+  useEffect(() => {
+    if (!unfinishedGameId || !isUnfinishedGamesStorageAvailable()) return;
+
+    if (!isGameInProgress) {
+      setUnfinishedGameId("");
+      setUnfinishedGames((prev) =>
+        prev.filter(({ id }) => id !== unfinishedGameId)
+      );
+      removeUnfinishedGame(unfinishedGameId).catch(console.error);
+      return;
+    }
+
+    const headers = game.getHeaders();
+    const opponentColor = playerColor === Color.White ? "Black" : "White";
+    const opponentRating = Number(headers[`${opponentColor}Elo`]);
+
+    saveUnfinishedGame({
+      id: unfinishedGameId,
+      pgn: game.pgn(),
+      playerColor,
+      opponent: {
+        name: headers[opponentColor] ?? opponentColor,
+        rating: opponentRating || undefined,
+      },
+      engineName,
+      engineElo,
+      isHumanLike,
+      botPersonalityId,
+      timeControlId,
+      coachHintsLeft,
+      movesNb: game.history().length,
+      updatedAt: Date.now(),
+    }).catch(console.error);
+  }, [game, isGameInProgress, coachHintsLeft]); // eslint-disable-line react-hooks/exhaustive-deps
+};
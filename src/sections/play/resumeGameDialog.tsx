@@ -0,0 +1,46 @@
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Typography,
+} from "@mui/material";
+import { UnfinishedGame } from "@/types/game";
+import { getUnfinishedGameDescription } from "@/lib/unfinishedGames";
+
+interface Props {
+  unfinishedGame: UnfinishedGame | undefined;
+  onResume: () => void;
+  onClose: () => void;
+}
+
+export default function ResumeGameDialog({
+  unfinishedGame,
+  onResume,
+  onClose,
+}: Props) {
+  return (
+    <Dialog open={!!unfinishedGame} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle marginY={1} variant="h5">
+        Resume your game ?
+      </DialogTitle>
+      <DialogContent sx={{ paddingBottom: 0 }}>
+        {unfinishedGame && (
+          <Typography>
+            Your game against {unfinishedGame.opponent.name} was interrupted
+            before it ended. {getUnfinishedGameDescription(unfinishedGame)}.
+          </Typography>
+        )}
+      </DialogContent>
+      <DialogActions sx={{ m: 2 }}>
+        <Button variant="outlined" sx={{ marginRight: 2 }} onClick={onClose}>
+          Not now
+        </Button>
+        <Button variant="contained" onClick={onResume}>
+          Resume game
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
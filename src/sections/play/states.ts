@@ -1,12 +1,34 @@
 import { DEFAULT_ENGINE } from "@/constants";
-import { Color, EngineName } from "@/types/enums";
-import { CurrentPosition } from "@/types/eval";
+import { Color, MoveClassification } from "@/types/enums";
+import { EngineId } from "@/types/engine";
+import { CurrentPosition, PositionEval } from "@/types/eval";
 import { Chess } from "chess.js";
 import { atom } from "jotai";
 
 export const gameAtom = atom(new Chess());
 export const gameDataAtom = atom<CurrentPosition>({});
 export const playerColorAtom = atom<Color>(Color.White);
-export const enginePlayNameAtom = atom<EngineName>(DEFAULT_ENGINE);
+export const enginePlayNameAtom = atom<EngineId>(DEFAULT_ENGINE);
 export const engineEloAtom = atom(1320);
+export const engineHumanLikeAtom = atom(false);
+// Empty when the bot is only set by its engine and Elo
+export const botPersonalityIdAtom = atom("");
+// Empty when the game is played without clocks
+export const timeControlIdAtom = atom("");
+// Color whose flag fell, which ended the game
+export const flaggedColorAtom = atom<Color | undefined>(undefined);
 export const isGameInProgressAtom = atom(false);
+// Id of the game in progress among the unfinished games
+export const unfinishedGameIdAtom = atom("");
+
+export const coachModeAtom = atom(false);
+export const coachBlunderWarningAtom = atom(true);
+export const coachHintsLeftAtom = atom(0);
+// Evaluation of every legal move of the position, while the player thinks
+export const coachEvalAtom = atom<
+  { fen: string; positionEval: PositionEval } | undefined
+>(undefined);
+export const coachFeedbackAtom = atom<
+  { san: string; moveClassification: MoveClassification } | undefined
+>(undefined);
+export const hintMoveAtom = atom<string | undefined>(undefined);
@@ -0,0 +1,86 @@
+import {
+  Button,
+  Grid2 as Grid,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  Typography,
+} from "@mui/material";
+import { Icon } from "@iconify/react";
+import { useAtomValue } from "jotai";
+import { useEffect, useRef, useState } from "react";
+import { isGameInProgressAtom } from "./states";
+import { useUnfinishedGames } from "./hooks/useUnfinishedGames";
+import ResumeGameDialog from "./resumeGameDialog";
+import { getUnfinishedGameDescription } from "@/lib/unfinishedGames";
+import { UnfinishedGame } from "@/types/game";
+
+export default function UnfinishedGames() {
+  const { unfinishedGames, removeGame, resumeGame } = useUnfinishedGames();
+  const isGameInProgress = useAtomValue(isGameInProgressAtom);
+  const [promptedGame, setPromptedGame] = useState<UnfinishedGame>();
+  const hasPromptedRef = useRef(false);
+
+  // The last interrupted game is offered once, when the page is opened
+  useEffect(() => {
+    if (hasPromptedRef.current || !unfinishedGames.length) return;
+
+    hasPromptedRef.current = true;
+    if (!isGameInProgress) setPromptedGame(unfinishedGames[0]);
+  }, [unfinishedGames, isGameInProgress]);
+
+  const handleResume = (unfinishedGame: UnfinishedGame) => {
+    setPromptedGame(undefined);
+    resumeGame(unfinishedGame);
+  };
+
+  return (
+    <>
+      {!isGameInProgress && !!unfinishedGames.length && (
+        <Grid container justifyContent="center" rowGap={1} size={12}>
+          <Typography>Unfinished games</Typography>
+
+          <List dense disablePadding sx={{ width: "100%" }}>
+            {unfinishedGames.map((unfinishedGame) => (
+              <ListItem
+                key={unfinishedGame.id}
+                disablePadding
+                secondaryAction={
+                  <IconButton
+                    size="small"
+                    onClick={() => removeGame(unfinishedGame.id)}
+                  >
+                    <Icon icon="mdi:delete-outline" />
+                  </IconButton>
+                }
+              >
+                <ListItemText
+                  primary={`vs ${unfinishedGame.opponent.name}${
+                    unfinishedGame.opponent.rating
+                      ? ` (${unfinishedGame.opponent.rating})`
+                      : ""
+                  }`}
+                  secondary={getUnfinishedGameDescription(unfinishedGame)}
+                />
+                <Button
+                  size="small"
+                  sx={{ marginRight: 3 }}
+                  onClick={() => handleResume(unfinishedGame)}
+                >
+                  Resume
+                </Button>
+              </ListItem>
+            ))}
+          </List>
+        </Grid>
+      )}
+
+      <ResumeGameDialog
+        unfinishedGame={promptedGame}
+        onResume={() => promptedGame && handleResume(promptedGame)}
+        onClose={() => setPromptedGame(undefined)}
+      />
+    </>
+  );
+}
@@ -1,7 +1,33 @@
+import { EngineName, EvalProviderName, JobPriority } from "./enums";
+import { PositionEval } from "./eval";
+
+export type CustomEngineId = `custom_${string}`;
+export type EngineId = EngineName | CustomEngineId;
+
+export interface CustomEngine {
+  id: CustomEngineId;
+  name: string;
+  url?: string;
+  file?: Blob;
+  options?: UciOption[];
+}
+
+export interface UciOption {
+  name: string;
+  type: "check" | "spin" | "combo" | "button" | "string";
+  default?: string;
+  min?: number;
+  max?: number;
+  vars?: string[];
+}
+
+export type UciOptionValues = Record<string, string>;
+
 export interface EngineWorker {
   isReady: boolean;
   uci(command: string): void;
   listen: (data: string) => void;
+  onError: (error: string) => void;
   terminate: () => void;
 }
 
@@ -9,5 +35,128 @@ export interface WorkerJob {
   commands: string[];
   finalMessage: string;
   onNewMessage?: (messages: string[]) => void;
+  priority: JobPriority;
+  signal?: AbortSignal;
+  worker?: EngineWorker;
+  inactivityTimeout?: number;
+  isPreempted?: boolean;
+  failuresNb?: number;
   resolve: (messages: string[]) => void;
+  reject: (reason: unknown) => void;
+}
+
+export type WorkerJobOptions = Partial<
+  Pick<
+    WorkerJob,
+    "onNewMessage" | "priority" | "signal" | "worker" | "inactivityTimeout"
+  >
+>;
+
+export interface EvalRequest {
+  fen: string;
+  engine: EngineId;
+  depth: number;
+  multiPv: number;
+}
+
+export interface EvalProvider {
+  name: EvalProviderName;
+  isLocal: boolean;
+  getEval: (request: EvalRequest) => Promise<PositionEval | undefined>;
+  saveEval?: (request: EvalRequest, positionEval: PositionEval) => void;
+}
+
+export type BrokerRequest =
+  | {
+      type: "create";
+      id: string;
+      enginePath: string;
+      maxEnginesNb: number;
+      crossOriginIsolated: boolean;
+    }
+  | { type: "uci"; id: string; command: string }
+  | { type: "terminate"; id: string }
+  | { type: "disconnect" };
+
+export type BrokerResponse =
+  | { type: "message"; id: string; data: string }
+  | { type: "error"; id: string; error: string }
+  | { type: "unsupported"; id: string };
+
+export interface EngineDownloadProgress {
+  loadedBytes: number;
+  totalBytes: number;
+}
+
+export interface EngineDownload {
+  status: "notDownloaded" | "downloading" | "downloaded" | "failed";
+  progress?: EngineDownloadProgress;
+  error?: string;
+}
+
+export interface BenchmarkParams {
+  fens: string[];
+  depth: number;
+  workersNb: number;
+  signal?: AbortSignal;
+}
+
+export interface BenchmarkResult {
+  engineName: EngineId;
+  workersNb: number;
+  positionsNb: number;
+  nodesNb: number;
+  durationMs: number;
+  nps: number;
+}
+
+export interface FakeEngineFixture {
+  name?: string;
+  positions: Record<string, { info: string[]; bestmove: string }>;
+}
+
+export interface MatchPlayer {
+  engineName: EngineId;
+  name: string;
+  elo?: number;
+  depth?: number;
+  movetime?: number;
+}
+
+export interface MatchOpening {
+  name: string;
+  fen: string;
+}
+
+export interface MatchGame {
+  round: number;
+  opening: string;
+  whitePlayerIndex: 0 | 1;
+  result: string;
+  termination?: string;
+  pgn: string;
+  gameId?: number;
+}
+
+export interface MatchScore {
+  gamesNb: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  score: number;
+  eloDifference?: number;
+  eloMargin?: number;
+}
+
+export interface BotPersonality {
+  id: string;
+  name: string;
+  description: string;
+  elo: number;
+  // Opening lines in SAN from the starting position, the bot follows them as
+  // long as its opponent does
+  bookLines: string[];
+  // Positive values favor captures and checks, negative ones quiet moves
+  tacticalBias: number;
+  thinkTimeMs: [number, number];
 }
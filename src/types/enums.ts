@@ -12,6 +12,21 @@ export enum EngineName {
   Stockfish16NNUE = "stockfish_16_nnue",
   Stockfish16 = "stockfish_16",
   Stockfish11 = "stockfish_11",
+  Fake = "fake",
+}
+
+export enum EvalProviderName {
+  Cache = "cache",
+  LichessCloud = "lichess_cloud",
+  Http = "http",
+  Engine = "engine",
+}
+
+export enum JobPriority {
+  // Searches that never end on their own, any other job can stop them
+  Idle = 0,
+  Background = 1,
+  Interactive = 2,
 }
 
 export enum MoveClassification {
@@ -1,17 +1,21 @@
 import { Move } from "chess.js";
-import { EngineName, MoveClassification } from "./enums";
+import { EvalProviderName, MoveClassification } from "./enums";
+import { EngineId } from "./engine";
 
 export interface PositionEval {
   bestMove?: string;
   moveClassification?: MoveClassification;
   opening?: string;
   lines: LineEval[];
+  playedMoveLine?: LineEval;
 }
 
 export interface LineEval {
   pv: string[];
   cp?: number;
   mate?: number;
+  // Win, draw and loss probabilities for White, in per mille
+  wdl?: [number, number, number];
   depth: number;
   multiPv: number;
 }
@@ -26,10 +30,59 @@ export interface EstimatedElo {
   black: number;
 }
 
+export interface SearchLimits {
+  depth?: number;
+  movetime?: number;
+  nodes?: number;
+}
+
+// Middlegame and endgame parts of an evaluation term, in pawns for White
+export interface EvalTraceScore {
+  mg: number;
+  eg: number;
+}
+
+export interface EvalTraceTerm {
+  name: string;
+  white?: EvalTraceScore;
+  black?: EvalTraceScore;
+  total: EvalTraceScore;
+}
+
+export interface EvalTrace {
+  terms: EvalTraceTerm[];
+  total?: EvalTraceScore;
+  // Final evaluation in pawns for White, undefined when in check
+  evaluation?: number;
+}
+
+export interface PositionEvalTrace {
+  fen: string;
+  trace: EvalTrace;
+}
+
+export interface EvalTraceChange {
+  name: string;
+  previousValue: number;
+  value: number;
+  change: number;
+}
+
+export interface SearchStats {
+  depth: number;
+  nodes?: number;
+  nps?: number;
+}
+
 export interface EngineSettings {
-  engine: EngineName;
+  engine: EngineId;
   depth: number;
   multiPv: number;
+  movetime?: number;
+  nodes?: number;
+  deterministic?: boolean;
+  progressive?: boolean;
+  useWdl?: boolean;
   date: string;
 }
 
@@ -40,11 +93,34 @@ export interface GameEval {
   settings: EngineSettings;
 }
 
-export interface EvaluatePositionWithUpdateParams {
+export interface EvalProvidersSettings {
+  providers: { name: EvalProviderName; enabled: boolean }[];
+  offline: boolean;
+  httpEndpoint: string;
+}
+
+export interface EvaluatePositionWithUpdateParams extends SearchLimits {
   fen: string;
-  depth?: number;
+  // Moves played from the starting position to reach the position, so that
+  // the engine sees repetitions and the fifty-move counter
+  startingFen?: string;
+  uciMoves?: string[];
+  // Only these moves are searched, without the eval providers
+  searchMoves?: string[];
   multiPv?: number;
-  setPartialEval?: (positionEval: PositionEval) => void;
+  evalProviders?: EvalProvidersSettings;
+  infinite?: boolean;
+  setPartialEval?: (
+    positionEval: PositionEval,
+    searchStats?: SearchStats
+  ) => void;
+  signal?: AbortSignal;
+}
+
+// Best move of the opponent if the side to move could pass its turn
+export interface ThreatEval {
+  fen: string;
+  line: LineEval;
 }
 
 export interface CurrentPosition {
@@ -53,14 +129,19 @@ export interface CurrentPosition {
   lastEval?: PositionEval;
   currentMoveIdx?: number;
   opening?: string;
+  searchStats?: SearchStats;
 }
 
-export interface EvaluateGameParams {
+export interface EvaluateGameParams extends SearchLimits {
   fens: string[];
   uciMoves: string[];
-  depth?: number;
   multiPv?: number;
+  deterministic?: boolean;
+  progressive?: boolean;
+  useWdl?: boolean;
+  evalProviders?: EvalProvidersSettings;
   setEvaluationProgress?: (value: number) => void;
+  setPartialGameEval?: (gameEval: GameEval) => void;
   playersRatings?: { white?: number; black?: number };
   workersNb?: number;
 }
@@ -68,7 +149,14 @@ export interface EvaluateGameParams {
 export interface SavedEval {
   bestMove?: string;
   lines: LineEval[];
-  engine: EngineName;
+  engine: EngineId;
 }
 
 export type SavedEvals = Record<string, SavedEval | undefined>;
+
+export interface CachedEval extends SavedEval {
+  id: string;
+  fen: string;
+  multiPv: number;
+  lastUsedAt: number;
+}
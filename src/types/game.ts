@@ -1,3 +1,5 @@
+import { EngineId } from "./engine";
+import { Color } from "./enums";
 import { GameEval } from "./eval";
 
 export interface Game {
@@ -33,3 +35,27 @@ export interface LoadedGame {
   movesNb?: number;
   url?: string;
 }
+
+export interface TimeControl {
+  // Value of the PGN TimeControl header, in seconds, e.g. "180+2"
+  id: string;
+  category: "Bullet" | "Blitz" | "Rapid" | "Classical";
+  initialMs: number;
+  incrementMs: number;
+}
+
+// Play mode game saved after each move, to be resumed if the page is closed
+export interface UnfinishedGame {
+  id: string;
+  pgn: string;
+  playerColor: Color;
+  opponent: Player;
+  engineName: EngineId;
+  engineElo: number;
+  isHumanLike: boolean;
+  botPersonalityId: string;
+  timeControlId: string;
+  coachHintsLeft?: number;
+  movesNb: number;
+  updatedAt: number;
+}